@@ -1,170 +1,298 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { GeometryCanvas } from './components/GeometryCanvas';
 import { Toolbar } from './components/Toolbar';
 import { PropertyPanel } from './components/PropertyPanel';
+import { ParameterPanel } from './components/ParameterPanel';
+import { CommandBar } from './components/CommandBar';
 import { HelpModal } from './components/HelpModal';
-import { GeoEntity, ToolType, ObjectType, GeoPoint, GeoConic, GeoLine, ConicType } from './types';
-import { updateConicCoefficients, calculatePolarLineCoeffs, closestPointOnLine, intersectLines, getLineFromPointAndAngle, getLineFromTwoPoints, intersectLineConic } from './utils/math';
+import { DocumentIssuesModal } from './components/DocumentIssuesModal';
+import { ExportModal } from './components/ExportModal';
+import { GeoEntity, ToolType, ObjectType, GeoPoint, GeoConic, GeoLine, ConicType, ViewTransform, MacroTool, SnapSettings } from './types';
+import { solveGeometry, branchSiblings } from './utils/solver';
+import { buildDependencyGraph, collectDependents, findCycle } from './utils/graph';
+import { advanceAnimations, isAnimating } from './utils/animation';
+import { parameterScope } from './utils/parameters';
+import { mergeMacros } from './utils/macros';
+import { DEFAULT_SNAP_SETTINGS } from './utils/snapping';
+import { createHistory, recordHistory, undoHistory, redoHistory } from './utils/history';
+import { serializeDocument, parseDocument, serializeTools, parseTools, DocumentIssue, DOCUMENT_EXTENSION, DOCUMENT_MIME_TYPE, TOOLS_EXTENSION } from './utils/document';
+import { downloadFile, readFileAsText } from './utils/file';
 
 const App: React.FC = () => {
   const [objects, setObjects] = useState<GeoEntity[]>([]);
-  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Selected objects in the order they were picked; construction tools keep their inputs elsewhere
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [tool, setTool] = useState<ToolType>(ToolType.SELECT);
   const [eraserSize, setEraserSize] = useState(20);
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(DEFAULT_SNAP_SETTINGS);
   const [showHelp, setShowHelp] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  // Initial view: origin at the center of the screen, 50px = 1 unit
+  const [view, setView] = useState<ViewTransform>(() => ({ x: window.innerWidth / 2, y: window.innerHeight / 2, k: 50 }));
+  // Custom tools; they are saved with the document but are not part of the undo history
+  const [macros, setMacros] = useState<MacroTool[]>([]);
+  // The custom tool applied while `tool` is MACRO
+  const [activeMacroId, setActiveMacroId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const toolsInputRef = useRef<HTMLInputElement>(null);
+  const commandInputRef = useRef<HTMLInputElement>(null);
+  const [loadIssues, setLoadIssues] = useState<{ fileName: string; issues: DocumentIssue[] } | null>(null);
+  // Short message shown at the bottom of the screen (e.g. a refused operation)
+  const [notice, setNotice] = useState<string | null>(null);
 
-  // --- Reactive Geometry Logic ---
-  const solveGeometry = (inputEntities: GeoEntity[]): GeoEntity[] => {
-      let currentEntities = inputEntities;
-      
-      // Run multiple passes to propagate dependencies (e.g. Point -> Line -> Intersection)
-      // 3 iterations is sufficient to resolve the dependency depth of typical constructions
-      // and prevents visual lag where dependent objects are drawn at previous frame positions.
-      for (let i = 0; i < 3; i++) {
-          const entityMap = new Map(currentEntities.map(e => [e.id, e]));
-          
-          currentEntities = currentEntities.map(obj => {
-              if (obj.type === ObjectType.CONIC) {
-                  return updateConicCoefficients(obj);
-              }
-              
-              if (obj.type === ObjectType.LINE) {
-                  // Pivot Line (Rotating around a point)
-                  if (obj.pivotPointId && typeof obj.angle === 'number') {
-                      const pivot = entityMap.get(obj.pivotPointId);
-                      if (pivot && pivot.type === ObjectType.POINT) {
-                          const { a, b, c } = getLineFromPointAndAngle(pivot as GeoPoint, obj.angle);
-                          return { ...obj, a, b, c };
-                      }
-                  }
-
-                  // Line defined by Two Points
-                  if (obj.p1Id && obj.p2Id) {
-                      const p1 = entityMap.get(obj.p1Id) as GeoPoint;
-                      const p2 = entityMap.get(obj.p2Id) as GeoPoint;
-                      if (p1 && p2) {
-                          const { a, b, c } = getLineFromTwoPoints(p1, p2);
-                          return { ...obj, a, b, c };
-                      }
-                  }
-
-                  // Polar Line (Dependent on Point + Conic)
-                  if (obj.dependencies && obj.dependencies.length === 2) {
-                      const d1 = entityMap.get(obj.dependencies[0]);
-                      const d2 = entityMap.get(obj.dependencies[1]);
-                      
-                      if (d1 && d2) {
-                          let point: GeoPoint | null = null;
-                          let conic: GeoConic | null = null;
-                          
-                          if (d1.type === ObjectType.POINT && d2.type === ObjectType.CONIC) {
-                              point = d1 as GeoPoint; conic = d2 as GeoConic;
-                          } else if (d1.type === ObjectType.CONIC && d2.type === ObjectType.POINT) {
-                              conic = d1 as GeoConic; point = d2 as GeoPoint;
-                          }
-                          
-                          if (point && conic) {
-                              const updatedConic = updateConicCoefficients(conic); 
-                              const { a, b, c } = calculatePolarLineCoeffs(point.x, point.y, updatedConic);
-                              return { ...obj, a, b, c };
-                          }
-                      }
-                  }
-              }
-              
-              if (obj.type === ObjectType.POINT) {
-                  // Intersection of Line and Conic
-                  if (!obj.isFree && obj.dependencies && obj.dependencies.length === 2 && obj.solutionIndex !== undefined) {
-                      const d1 = entityMap.get(obj.dependencies[0]);
-                      const d2 = entityMap.get(obj.dependencies[1]);
-                      
-                      let line: GeoLine | null = null;
-                      let conic: GeoConic | null = null;
-
-                      if (d1?.type === ObjectType.LINE && d2?.type === ObjectType.CONIC) {
-                          line = d1 as GeoLine; conic = d2 as GeoConic;
-                      } else if (d1?.type === ObjectType.CONIC && d2?.type === ObjectType.LINE) {
-                          conic = d1 as GeoConic; line = d2 as GeoLine;
-                      }
-
-                      if (line && conic) {
-                          const solutions = intersectLineConic(line, updateConicCoefficients(conic));
-                          if (solutions[obj.solutionIndex]) {
-                              return { ...obj, x: solutions[obj.solutionIndex].x, y: solutions[obj.solutionIndex].y, hidden: false };
-                          } else {
-                              // No real intersection or index out of bounds
-                              return { ...obj, hidden: true };
-                          }
-                      }
-                  }
-
-                  // Constrained to Line
-                  if (obj.onLineId) {
-                      const line = entityMap.get(obj.onLineId) as GeoLine;
-                      if (line) {
-                          const { x, y } = closestPointOnLine(obj.x, obj.y, line);
-                          return { ...obj, x, y };
-                      }
-                  }
-                  
-                  // Intersection of Two Lines
-                  if (!obj.isFree && obj.dependencies && obj.dependencies.length === 2 && obj.solutionIndex === undefined) {
-                      const l1 = entityMap.get(obj.dependencies[0]) as GeoLine;
-                      const l2 = entityMap.get(obj.dependencies[1]) as GeoLine;
-                      if (l1?.type === ObjectType.LINE && l2?.type === ObjectType.LINE) {
-                          const intersection = intersectLines(l1, l2);
-                          if (intersection) {
-                              return { ...obj, x: intersection.x, y: intersection.y, hidden: false };
-                          } else {
-                              return { ...obj, hidden: true };
-                          }
-                      }
-                  }
-              }
-              
-              return obj;
-          });
+  useEffect(() => {
+      if (!notice) return;
+      const timer = setTimeout(() => setNotice(null), 4000);
+      return () => clearTimeout(timer);
+  }, [notice]);
+
+  // --- Undo / Redo ---
+  // `objectsRef` mirrors `objects` so that several mutations issued by one handler
+  // (e.g. the five onAdd calls of the TANGENT tool) build on each other synchronously.
+  const objectsRef = useRef<GeoEntity[]>([]);
+  const historyRef = useRef(createHistory<GeoEntity[]>());
+  const [historyFlags, setHistoryFlags] = useState({ canUndo: false, canRedo: false });
+  // True once the current undo step has recorded its snapshot
+  const stepOpenRef = useRef(false);
+  // True between onGestureStart and onGestureEnd (drags, eraser strokes, slider drags)
+  const gestureRef = useRef(false);
+  // Removes the window listeners that end the current gesture
+  const gestureCleanupRef = useRef<(() => void) | null>(null);
+
+  const syncHistoryFlags = () => {
+      setHistoryFlags({
+          canUndo: historyRef.current.past.length > 0,
+          canRedo: historyRef.current.future.length > 0,
+      });
+  };
+
+  const commitObjects = useCallback((next: GeoEntity[]) => {
+      if (!stepOpenRef.current) {
+          historyRef.current = recordHistory(historyRef.current, objectsRef.current);
+          stepOpenRef.current = true;
+          // Outside of a gesture, everything committed during the current event handler
+          // belongs to the same step; the step closes once the handler has returned.
+          if (!gestureRef.current) {
+              queueMicrotask(() => {
+                  if (!gestureRef.current) stepOpenRef.current = false;
+              });
+          }
+          syncHistoryFlags();
       }
-      
-      return currentEntities;
+      objectsRef.current = next;
+      setObjects(next);
+  }, []);
+
+  // Restores a snapshot without recording it as a new step
+  const restoreObjects = (value: GeoEntity[]) => {
+      stepOpenRef.current = false;
+      objectsRef.current = value;
+      setObjects(value);
+      syncHistoryFlags();
   };
 
-  const handleUpdate = useCallback((id: string, changes: Partial<GeoEntity>) => {
-      setObjects(prev => {
-          const next = prev.map(o => o.id === id ? { ...o, ...changes } as GeoEntity : o);
-          return solveGeometry(next);
-      });
+  const handleUndo = useCallback(() => {
+      const result = undoHistory(historyRef.current, objectsRef.current);
+      if (!result) return;
+      historyRef.current = result.history;
+      restoreObjects(result.value);
   }, []);
 
-  const handleAdd = useCallback((obj: GeoEntity) => {
-      setObjects(prev => solveGeometry([...prev, obj]));
+  const handleRedo = useCallback(() => {
+      const result = redoHistory(historyRef.current, objectsRef.current);
+      if (!result) return;
+      historyRef.current = result.history;
+      restoreObjects(result.value);
   }, []);
 
+  const handleGestureEnd = useCallback(() => {
+      gestureCleanupRef.current?.();
+      gestureCleanupRef.current = null;
+      if (!gestureRef.current) return;
+      gestureRef.current = false;
+      stepOpenRef.current = false;
+  }, []);
+
+  // A gesture also ends when the button is released outside the component that started it, when
+  // the pointer leaves the page or when the window loses focus; otherwise every later edit
+  // would join its undo step
+  const handleGestureStart = useCallback(() => {
+      gestureRef.current = true;
+      stepOpenRef.current = false;
+      if (gestureCleanupRef.current) return;
+      const root = document.documentElement;
+      window.addEventListener('mouseup', handleGestureEnd);
+      window.addEventListener('pointerup', handleGestureEnd);
+      window.addEventListener('blur', handleGestureEnd);
+      root.addEventListener('mouseleave', handleGestureEnd);
+      gestureCleanupRef.current = () => {
+          window.removeEventListener('mouseup', handleGestureEnd);
+          window.removeEventListener('pointerup', handleGestureEnd);
+          window.removeEventListener('blur', handleGestureEnd);
+          root.removeEventListener('mouseleave', handleGestureEnd);
+      };
+  }, [handleGestureEnd]);
+
+  // Commits a changed construction unless it would define an object in terms of itself
+  const commitConstruction = useCallback((next: GeoEntity[]) => {
+      const cycle = findCycle(next);
+      if (cycle) {
+          const byId = new Map(next.map(o => [o.id, o]));
+          setNotice(`Circular definition refused: ${cycle.map(id => byId.get(id)?.name ?? id).join(' → ')}`);
+          return;
+      }
+      commitObjects(solveGeometry(next));
+  }, [commitObjects]);
+
+  const handleUpdate = useCallback((id: string, changes: Partial<GeoEntity>) => {
+      commitConstruction(objectsRef.current.map(o => o.id === id ? { ...o, ...changes } as GeoEntity : o));
+  }, [commitConstruction]);
+
+  // Applies changes to several objects with a single solve (group drags, bulk edits)
+  const handleUpdateMany = useCallback((updates: Record<string, Partial<GeoEntity>>) => {
+      commitConstruction(objectsRef.current.map(o => updates[o.id] ? { ...o, ...updates[o.id] } as GeoEntity : o));
+  }, [commitConstruction]);
+
+  const handleAdd = useCallback((obj: GeoEntity) => {
+      commitConstruction([...objectsRef.current, obj]);
+  }, [commitConstruction]);
+
+  // Puts the intersection points on the same inputs as `id` back on the solutions in their
+  // original order; they follow their branches from there
+  const handleResetBranches = useCallback((id: string) => {
+      const point = objectsRef.current.find(o => o.id === id);
+      if (!point) return;
+      const group = new Set(branchSiblings(point, objectsRef.current).map(p => p.id));
+      commitConstruction(objectsRef.current.map(o => group.has(o.id) ? { ...o, branchTracked: false } as GeoEntity : o));
+  }, [commitConstruction]);
+
   const handleDelete = useCallback((id: string) => {
-      setObjects(prev => {
-          const next = prev.filter(o => o.id !== id);
-          const toDelete = new Set([id]);
-          let changed = true;
-          while(changed) {
-              changed = false;
-              next.forEach(o => {
-                  if (!toDelete.has(o.id) && (
-                      o.dependencies?.some(d => toDelete.has(d)) || 
-                      (o.type === ObjectType.POINT && toDelete.has(o.onLineId || '')) || 
-                      (o.type === ObjectType.LINE && toDelete.has(o.pivotPointId || '')) ||
-                      (o.type === ObjectType.LINE && (toDelete.has(o.p1Id || '') || toDelete.has(o.p2Id || '')))
-                  )) {
-                      toDelete.add(o.id);
-                      changed = true;
-                  }
-              });
+      const prev = objectsRef.current;
+      // Nothing to do if the object is already gone (e.g. removed by an earlier cascade)
+      if (!prev.some(o => o.id === id)) return;
+
+      // Cascade: everything defined (transitively) by the deleted object goes too
+      const toDelete = collectDependents(buildDependencyGraph(prev), [id]);
+      commitObjects(prev.filter(o => !toDelete.has(o.id)));
+  }, [commitObjects]);
+
+  // --- Animation ---
+  // Each frame advances the playing objects and re-solves the construction like any update, but
+  // is not recorded as an undo step. Frames are skipped while a drag is in progress.
+  const animating = objects.some(isAnimating);
+
+  useEffect(() => {
+      if (!animating) return;
+      let frame = 0;
+      let last = performance.now();
+      const tick = (now: number) => {
+          // Long gaps (background tab) do not make the animation jump
+          const dt = Math.min(0.1, (now - last) / 1000);
+          last = now;
+          if (!gestureRef.current) {
+              const next = advanceAnimations(objectsRef.current, dt);
+              if (next !== objectsRef.current) {
+                  const solved = solveGeometry(next);
+                  objectsRef.current = solved;
+                  setObjects(solved);
+              }
           }
-          return next.filter(o => !toDelete.has(o.id));
-      });
-      // Handle cleanup if the selected object was deleted
-      if (selectedId === id) setSelectedId(null);
-  }, [selectedId]);
+          frame = requestAnimationFrame(tick);
+      };
+      frame = requestAnimationFrame(tick);
+      return () => cancelAnimationFrame(frame);
+  }, [animating]);
+
+  // --- Save / Open ---
+  const handleSave = useCallback(() => {
+      downloadFile(`construction${DOCUMENT_EXTENSION}`, serializeDocument(objectsRef.current, view, macros), DOCUMENT_MIME_TYPE);
+  }, [view, macros]);
+
+  const handleOpen = useCallback(() => {
+      fileInputRef.current?.click();
+  }, []);
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      // Reset so that choosing the same file again still fires onChange
+      e.target.value = '';
+      if (!file) return;
+
+      let text: string;
+      try {
+          text = await readFileAsText(file);
+      } catch (err) {
+          setLoadIssues({ fileName: file.name, issues: [{ message: (err as Error).message }] });
+          return;
+      }
+
+      const result = parseDocument(text);
+      if (!result.document) {
+          setLoadIssues({ fileName: file.name, issues: result.issues });
+          return;
+      }
+      // Opening a file is undoable like any other change
+      commitObjects(solveGeometry(result.document.objects));
+      setView(result.document.view);
+      setSelectedIds([]);
+      // The document's tools are added to the ones already defined
+      setMacros(current => mergeMacros(current, result.document!.macros));
+  };
+
+  // --- Custom Tools ---
+  const handleSelectMacro = (id: string) => {
+      setActiveMacroId(id);
+      setTool(ToolType.MACRO);
+  };
+
+  const handleSaveMacro = (macro: MacroTool) => {
+      setMacros(current => [...current, macro]);
+      handleSelectMacro(macro.id);
+  };
+
+  const handleDeleteMacro = (id: string) => {
+      setMacros(current => current.filter(m => m.id !== id));
+      if (activeMacroId === id) {
+          setActiveMacroId(null);
+          setTool(ToolType.SELECT);
+      }
+  };
+
+  // Downloads the given tools as a file that can be imported into other documents
+  const handleExportTools = (list: MacroTool[]) => {
+      const name = list.length === 1 ? list[0].name.replace(/[^\w-]+/g, '_') : 'tools';
+      downloadFile(`${name}${TOOLS_EXTENSION}`, serializeTools(list), DOCUMENT_MIME_TYPE);
+  };
+
+  const handleToolsFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      let text: string;
+      try {
+          text = await readFileAsText(file);
+      } catch (err) {
+          setLoadIssues({ fileName: file.name, issues: [{ message: (err as Error).message }] });
+          return;
+      }
+
+      const result = parseTools(text);
+      if (!result.macros) {
+          setLoadIssues({ fileName: file.name, issues: result.issues });
+          return;
+      }
+      setMacros(current => mergeMacros(current, result.macros!));
+      setNotice(`Imported ${result.macros.length} tool${result.macros.length === 1 ? '' : 's'}`);
+  };
+
+  // Drop the selection once the selected object no longer exists (delete, cascade, undo)
+  useEffect(() => {
+      if (selectedIds.some(id => !objects.some(o => o.id === id))) {
+          setSelectedIds(selectedIds.filter(id => objects.some(o => o.id === id)));
+      }
+  }, [objects, selectedIds]);
   
   // Keyboard Shortcuts
   useEffect(() => {
@@ -174,21 +302,59 @@ const App: React.FC = () => {
             return;
         }
 
+        // Ctrl/Cmd combinations never switch tools
+        if (e.ctrlKey || e.metaKey) {
+            const key = e.key.toLowerCase();
+            if (key === 's') {
+                e.preventDefault();
+                handleSave();
+            } else if (key === 'o') {
+                e.preventDefault();
+                handleOpen();
+            } else if (key === 'e') {
+                e.preventDefault();
+                setShowExport(true);
+            } else if (key === 'z') {
+                e.preventDefault();
+                if (e.shiftKey) handleRedo();
+                else handleUndo();
+            } else if (key === 'y') {
+                e.preventDefault();
+                handleRedo();
+            }
+            return;
+        }
+
         switch(e.key.toLowerCase()) {
             case 's': setTool(ToolType.SELECT); break;
             case 'p': setTool(ToolType.POINT); break;
             case 'l': setTool(ToolType.LINE); break;
+            case 'g': setTool(ToolType.SEGMENT); break; // 'G' for seGment
+            case 'y': setTool(ToolType.RAY); break; // 'Y' for raY
+            case 'r': setTool(ToolType.CIRCLE); break; // 'R' for ciRcle
             case 'c': setTool(ToolType.CONIC); break;
+            case '5': setTool(ToolType.FIVE_POINT_CONIC); break;
             case 'i': setTool(ToolType.INTERSECT); break;
             case 'o': setTool(ToolType.POLAR); break; // 'O' for Polar
+            case 'f': setTool(ToolType.POLE); break; // 'F' for Pole of a line
+            case 'h': setTool(ToolType.HARMONIC); break; // 'H' for Harmonic conjugate
+            case 'j': setTool(ToolType.TRANSFORM); break; // 'J' for proJective transform
             case 't': setTool(ToolType.TRIANGLE); break; // 'T' for Triangle
+            case 'u': setTool(ToolType.LOCUS); break; // 'U' for Locus
+            case 'm': setTool(ToolType.MEASURE); break;
             case 'e': setTool(ToolType.ERASER); break;
+            case '/':
+                // Without preventDefault the slash would be typed into the command bar
+                e.preventDefault();
+                commandInputRef.current?.focus();
+                break;
             case 'delete':
             case 'backspace':
-                if (selectedId) handleDelete(selectedId);
+                // One undo step for the whole selection
+                selectedIds.forEach(handleDelete);
                 break;
             case 'escape':
-                if (selectedId) setSelectedId(null);
+                if (selectedIds.length > 0) setSelectedIds([]);
                 else setTool(ToolType.SELECT);
                 break;
         }
@@ -196,7 +362,7 @@ const App: React.FC = () => {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedId, handleDelete]);
+  }, [selectedIds, handleDelete, handleUndo, handleRedo, handleSave, handleOpen]);
 
   // Initialize with a demo scene if empty
   useEffect(() => {
@@ -236,12 +402,17 @@ const App: React.FC = () => {
                dependencies: ['lRot', 'c1'], solutionIndex: 1
            };
            
-           setObjects(solveGeometry([c1, pA, pB, lAB, pPivot, lRot, i1, i2]));
+           // The demo scene is the starting point, not an undoable step
+           const initial = solveGeometry([c1, pA, pB, lAB, pPivot, lRot, i1, i2]);
+           objectsRef.current = initial;
+           setObjects(initial);
       }
       // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const selectedObject = objects.find(o => o.id === selectedId) || null;
+  const selectedObjects = selectedIds.map(id => objects.find(o => o.id === id)).filter((o): o is GeoEntity => !!o);
+  // Parameter values by name, for expressions typed into the Property Panel
+  const variables = parameterScope(objects);
 
   return (
     <div className="flex w-full h-screen bg-gray-900 text-white overflow-hidden font-sans">
@@ -251,31 +422,110 @@ const App: React.FC = () => {
         onOpenHelp={() => setShowHelp(true)} 
         eraserSize={eraserSize}
         setEraserSize={setEraserSize}
+        snapSettings={snapSettings}
+        setSnapSettings={setSnapSettings}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        canUndo={historyFlags.canUndo}
+        canRedo={historyFlags.canRedo}
+        onSave={handleSave}
+        onOpen={handleOpen}
+        onExport={() => setShowExport(true)}
+        macros={macros}
+        activeMacroId={tool === ToolType.MACRO ? activeMacroId : null}
+        onSelectMacro={handleSelectMacro}
+        onImportTools={() => toolsInputRef.current?.click()}
+        onExportTools={() => handleExportTools(macros)}
+      />
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={`${DOCUMENT_EXTENSION},.json,${DOCUMENT_MIME_TYPE}`}
+        className="hidden"
+        onChange={handleFileChosen}
+      />
+      <input
+        ref={toolsInputRef}
+        type="file"
+        accept={`${TOOLS_EXTENSION},.json,${DOCUMENT_MIME_TYPE}`}
+        className="hidden"
+        onChange={handleToolsFileChosen}
       />
       
       <div className="flex-1 relative">
         <GeometryCanvas
           objects={objects}
-          selectedId={selectedId}
+          selectedIds={selectedIds}
           tool={tool}
-          onSelect={setSelectedId}
+          view={view}
+          onViewChange={setView}
+          onSelect={setSelectedIds}
           onUpdate={handleUpdate}
+          onUpdateMany={handleUpdateMany}
           onAdd={handleAdd}
           onDelete={handleDelete}
+          onGestureStart={handleGestureStart}
+          onGestureEnd={handleGestureEnd}
           eraserSize={eraserSize}
+          snapSettings={snapSettings}
+          macro={macros.find(m => m.id === activeMacroId) ?? null}
+          onSaveMacro={handleSaveMacro}
+          onDeleteMacro={handleDeleteMacro}
+          onExportMacro={(macro) => handleExportTools([macro])}
+        />
+        <CommandBar
+          objects={objects}
+          onAdd={handleAdd}
+          onSelect={setSelectedIds}
+          inputRef={commandInputRef}
+        />
+        <ParameterPanel
+          objects={objects}
+          selectedIds={selectedIds}
+          onSelect={setSelectedIds}
+          onUpdate={handleUpdate}
+          onAdd={handleAdd}
+          onGestureStart={handleGestureStart}
+          onGestureEnd={handleGestureEnd}
         />
       </div>
 
-      {selectedId && (
+      {selectedObjects.length > 0 && (
         <PropertyPanel
-          object={selectedObject}
+          objects={selectedObjects}
           onChange={handleUpdate}
+          onChangeMany={handleUpdateMany}
+          onSelect={setSelectedIds}
           onDelete={handleDelete}
-          onClose={() => setSelectedId(null)}
+          onAdd={handleAdd}
+          onResetBranches={handleResetBranches}
+          variables={variables}
+          onGestureStart={handleGestureStart}
+          onGestureEnd={handleGestureEnd}
+          onClose={() => setSelectedIds([])}
         />
       )}
 
+      {notice && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-40 px-4 py-2 bg-gray-800/95 border border-amber-900/50 text-amber-400 text-sm rounded-lg shadow-xl">
+          {notice}
+        </div>
+      )}
+
       <HelpModal isOpen={showHelp} onClose={() => setShowHelp(false)} />
+      <ExportModal
+        isOpen={showExport}
+        objects={objects}
+        view={view}
+        width={window.innerWidth}
+        height={window.innerHeight}
+        onClose={() => setShowExport(false)}
+      />
+      <DocumentIssuesModal
+        fileName={loadIssues?.fileName ?? ''}
+        issues={loadIssues?.issues ?? null}
+        onClose={() => setLoadIssues(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Terminal } from 'lucide-react';
+import { GeoEntity } from '../types';
+import { runCommand, commandCompletions } from '../utils/commands';
+
+interface CommandBarProps {
+  objects: GeoEntity[];
+  onAdd: (obj: GeoEntity) => void;
+  onSelect: (ids: string[]) => void;
+  // Focused by the "/" shortcut
+  inputRef: React.RefObject<HTMLInputElement>;
+}
+
+// Text input at the top of the canvas that builds objects from commands (`utils/commands.ts`).
+// Tab completes the highlighted command or name; Up/Down browse the completions, or the
+// commands entered before when there are none.
+export const CommandBar: React.FC<CommandBarProps> = ({ objects, onAdd, onSelect, inputRef }) => {
+  const [text, setText] = useState('');
+  const [cursor, setCursor] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [highlighted, setHighlighted] = useState(-1);
+  const [history, setHistory] = useState<string[]>([]);
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [focused, setFocused] = useState(false);
+
+  const { from, items } = focused ? commandCompletions(text, cursor, objects) : { from: cursor, items: [] };
+
+  const edit = (value: string, caret: number) => {
+    setText(value);
+    setCursor(caret);
+    setError(null);
+    setHighlighted(-1);
+  };
+
+  const complete = (index: number) => {
+    const { insert } = items[index];
+    const value = text.slice(0, from) + insert + text.slice(cursor);
+    const caret = from + insert.length;
+    edit(value, caret);
+    // Put the caret after the inserted text once React has updated the input
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(caret, caret));
+  };
+
+  const run = () => {
+    if (!text.trim()) return;
+    const result = runCommand(text, objects);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    // All objects of one command form one undo step; its results become the selection
+    result.objects.forEach(onAdd);
+    onSelect(result.results.map(o => o.id));
+    setHistory(h => [...h.filter(c => c !== text), text]);
+    setHistoryIndex(null);
+    edit('', 0);
+  };
+
+  const recall = (index: number | null) => {
+    setHistoryIndex(index);
+    const value = index === null ? '' : history[index];
+    edit(value, value.length);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Tab' && items.length > 0) {
+      e.preventDefault();
+      complete(Math.max(highlighted, 0));
+    } else if (e.key === 'Enter') {
+      if (highlighted >= 0) complete(highlighted);
+      else run();
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      if (items.length > 0) {
+        // -1 (nothing highlighted) is part of the cycle
+        const count = items.length + 1;
+        setHighlighted((highlighted + 1 + step + count) % count - 1);
+      } else if (history.length > 0) {
+        const current = historyIndex ?? history.length;
+        const next = Math.min(Math.max(current + step, 0), history.length);
+        recall(next === history.length ? null : next);
+      }
+    } else if (e.key === 'Escape') {
+      if (highlighted >= 0) setHighlighted(-1);
+      else inputRef.current?.blur();
+    }
+  };
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 w-[28rem] z-10">
+      <div className={`flex items-center gap-2 px-3 py-2 bg-gray-800/90 backdrop-blur border rounded-xl shadow-lg ${error ? 'border-red-500' : 'border-gray-700'}`}>
+        <Terminal size={14} className="text-gray-500 shrink-0" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={text}
+          placeholder="Command (/), e.g. p = Polar(A, c)"
+          spellCheck={false}
+          onChange={(e) => edit(e.target.value, e.target.selectionStart ?? e.target.value.length)}
+          onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? 0)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => { setFocused(false); setHighlighted(-1); }}
+          className="flex-1 bg-transparent text-sm text-white font-mono placeholder-gray-600 focus:outline-none"
+        />
+      </div>
+      {error && <p className="mt-1 px-3 text-xs text-red-400">{error}</p>}
+      {items.length > 0 && (
+        <ul className="mt-1 py-1 bg-gray-800/95 border border-gray-700 rounded-lg shadow-xl text-xs">
+          {items.map((item, i) => (
+            <li
+              key={`${item.label}-${i}`}
+              // Keep the focus in the input
+              onMouseDown={(e) => { e.preventDefault(); complete(i); }}
+              className={`flex justify-between gap-4 px-3 py-1 cursor-pointer ${i === highlighted ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+            >
+              <span className="font-mono truncate">{item.label}</span>
+              <span className={`truncate ${i === highlighted ? 'text-blue-100' : 'text-gray-500'}`}>{item.detail}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
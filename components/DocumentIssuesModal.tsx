@@ -0,0 +1,59 @@
+import React from 'react';
+import { X, AlertTriangle } from 'lucide-react';
+import { DocumentIssue } from '../utils/document';
+
+interface DocumentIssuesModalProps {
+  fileName: string;
+  issues: DocumentIssue[] | null;
+  onClose: () => void;
+}
+
+export const DocumentIssuesModal: React.FC<DocumentIssuesModalProps> = ({ fileName, issues, onClose }) => {
+  if (!issues) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl max-w-xl w-full max-h-[80vh] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-800 bg-gray-900">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <AlertTriangle size={22} className="text-amber-500" /> Could not open {fileName}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="overflow-y-auto p-6 space-y-3">
+          <p className="text-sm text-gray-400">
+            The file was not loaded because it contains {issues.length} problem{issues.length === 1 ? '' : 's'}. Your current construction is unchanged.
+          </p>
+          <ul className="space-y-2">
+            {issues.map((issue, i) => (
+              <li key={i} className="bg-gray-800/40 p-3 rounded-lg border border-gray-700/50 text-sm">
+                {issue.objectId && (
+                  <span className="font-semibold text-white mr-2">
+                    {issue.objectName ?? issue.objectId}
+                    {issue.objectName && <span className="text-gray-500 font-mono text-xs ml-1">({issue.objectId})</span>}
+                  </span>
+                )}
+                <span className="text-amber-400">{issue.message}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-gray-800 bg-gray-900 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-medium transition-colors shadow-lg shadow-blue-900/20"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
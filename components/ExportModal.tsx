@@ -0,0 +1,186 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { X, ImageDown, FileCode } from 'lucide-react';
+import { GeoEntity, ViewTransform } from '../types';
+import { exportSvg, SvgExportOptions, DEFAULT_SVG_EXPORT_OPTIONS, SVG_MIME_TYPE } from '../utils/svgExport';
+import { exportTikz, TIKZ_MIME_TYPE } from '../utils/tikzExport';
+import { getViewBounds, ViewBounds } from '../utils/render';
+import { downloadFile } from '../utils/file';
+
+interface ExportModalProps {
+  isOpen: boolean;
+  objects: GeoEntity[];
+  view: ViewTransform;
+  // Size of the exported viewport in pixels
+  width: number;
+  height: number;
+  onClose: () => void;
+}
+
+type ExportFormat = 'svg' | 'tikz';
+
+const OPTION_LABELS: { key: keyof SvgExportOptions; label: string; formats: ExportFormat[] }[] = [
+  { key: 'grid', label: 'Grid', formats: ['svg', 'tikz'] },
+  { key: 'axes', label: 'Axes', formats: ['svg', 'tikz'] },
+  { key: 'labels', label: 'Labels', formats: ['svg', 'tikz'] },
+  { key: 'background', label: 'Dark background', formats: ['svg'] },
+];
+
+const BOUND_LABELS: { key: keyof ViewBounds; label: string }[] = [
+  { key: 'left', label: 'x from' },
+  { key: 'right', label: 'x to' },
+  { key: 'top', label: 'y from' },
+  { key: 'bottom', label: 'y to' },
+];
+
+// Default TikZ box: the current view rounded outwards to whole units
+const roundedViewBounds = (view: ViewTransform, width: number, height: number): ViewBounds => {
+  const b = getViewBounds(view, width, height);
+  return { left: Math.floor(b.left), right: Math.ceil(b.right), top: Math.floor(b.top), bottom: Math.ceil(b.bottom) };
+};
+
+// Number input that accepts anything while typing and reports finite values only
+const NumberField: React.FC<{ label: string; value: number; onChange: (v: number) => void }> = ({ label, value, onChange }) => (
+  <label className="text-xs text-gray-500">
+    {label}
+    <input
+      type="number"
+      value={value}
+      onChange={(e) => { const v = parseFloat(e.target.value); if (isFinite(v)) onChange(v); }}
+      className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-white mt-1 focus:border-blue-500 focus:outline-none"
+    />
+  </label>
+);
+
+export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, objects, view, width, height, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('svg');
+  const [options, setOptions] = useState<SvgExportOptions>(DEFAULT_SVG_EXPORT_OPTIONS);
+  const [bounds, setBounds] = useState<ViewBounds>(() => roundedViewBounds(view, width, height));
+  // Centimeters per unit; the default fits the box into 12cm
+  const [unit, setUnit] = useState(1);
+
+  // Each time the dialog opens, the TikZ box starts from the current view
+  useEffect(() => {
+    if (!isOpen) return;
+    const initial = roundedViewBounds(view, width, height);
+    setBounds(initial);
+    setUnit(parseFloat((12 / Math.max(1, initial.right - initial.left)).toFixed(2)));
+  }, [isOpen]);
+
+  const boundsValid = bounds.right > bounds.left && bounds.bottom > bounds.top && unit > 0;
+
+  const output = useMemo(() => {
+    if (!isOpen) return '';
+    if (format === 'svg') return exportSvg(objects, view, width, height, options);
+    return boundsValid ? exportTikz(objects, { bounds, unit, grid: options.grid, axes: options.axes, labels: options.labels }) : '';
+  }, [isOpen, format, objects, view, width, height, options, bounds, unit, boundsValid]);
+
+  if (!isOpen) return null;
+
+  const handleDownload = () => {
+    if (format === 'svg') downloadFile('construction.svg', output, SVG_MIME_TYPE);
+    else downloadFile('construction.tex', output, TIKZ_MIME_TYPE);
+    onClose();
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard?.writeText(output);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-800 bg-gray-900">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <ImageDown size={22} className="text-blue-400" /> Export Figure
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="overflow-y-auto p-6 space-y-4">
+          <div className="flex gap-2">
+            {([['svg', 'SVG image', ImageDown], ['tikz', 'TikZ (LaTeX)', FileCode]] as const).map(([id, label, Icon]) => (
+              <button
+                key={id}
+                onClick={() => setFormat(id)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                  format === id ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'
+                }`}
+              >
+                <Icon size={16} /> {label}
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-gray-400">
+            {format === 'svg'
+              ? 'Exports the visible objects in the current view as a standalone SVG. Hidden objects are left out.'
+              : 'Exports the visible objects as a tikzpicture clipped to the box below. It only needs \\usepackage{tikz}.'}
+          </p>
+          <div className="flex flex-wrap gap-4">
+            {OPTION_LABELS.filter(o => o.formats.includes(format)).map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options[key]}
+                  onChange={(e) => setOptions({ ...options, [key]: e.target.checked })}
+                  className="accent-blue-500"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          {format === 'tikz' && (
+            <div className="grid grid-cols-5 gap-2">
+              {BOUND_LABELS.map(({ key, label }) => (
+                <NumberField key={key} label={label} value={bounds[key]} onChange={v => setBounds({ ...bounds, [key]: v })} />
+              ))}
+              <NumberField label="cm per unit" value={unit} onChange={setUnit} />
+            </div>
+          )}
+          {format === 'svg' ? (
+            <div className="rounded-lg border border-gray-700 overflow-hidden bg-[repeating-conic-gradient(#1f2937_0_25%,#111827_0_50%)] bg-[length:16px_16px]">
+              <img
+                src={`data:${SVG_MIME_TYPE};charset=utf-8,${encodeURIComponent(output)}`}
+                alt="Export preview"
+                className="w-full h-auto block"
+              />
+            </div>
+          ) : boundsValid ? (
+            <pre className="text-xs font-mono text-gray-300 bg-gray-950 border border-gray-800 rounded-lg p-3 max-h-64 overflow-auto whitespace-pre">{output}</pre>
+          ) : (
+            <p className="text-sm text-amber-400">The box must have positive width and height, and the unit must be positive.</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-gray-800 bg-gray-900 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 text-gray-300 hover:text-white rounded-lg font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          {format === 'tikz' && (
+            <button
+              onClick={handleCopy}
+              disabled={!output}
+              className="px-6 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              Copy
+            </button>
+          )}
+          <button
+            onClick={handleDownload}
+            disabled={!output}
+            className="px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-medium transition-colors shadow-lg shadow-blue-900/20 disabled:opacity-50"
+          >
+            {format === 'svg' ? 'Download SVG' : 'Download .tex'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,40 +1,117 @@
 
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
 import * as d3 from 'd3';
-import { GeoEntity, ObjectType, GeoPoint, GeoLine, GeoConic, ToolType, ConicType } from '../types';
+import { GeoEntity, ObjectType, GeoPoint, GeoLine, ToolType, ConicType, ViewTransform, MeasureType, CircleDefinition, MacroTool, SnapKind, SnapSettings } from '../types';
 import { Crosshair } from 'lucide-react';
+import { isLineAtInfinity, closestPointOnLine, isDegenerateConicType, splitDegenerateConic, getConicMatrix, harmonicConjugate, homographyFromPoints } from '../utils/math';
+import { buildDependencyGraph, collectDependents } from '../utils/graph';
+import { isLocusDriver } from '../utils/solver';
+import { buildLocus, buildMeasure, buildHarmonicConjugate, buildBoundedLine, buildCircle, buildTransform, buildTransformImages, buildConic, buildFivePointConic, buildLineThroughPoints, buildPivotLine, buildIntersections, buildPolar, buildPole, buildTangents, buildSelfPolarTriangle, numberedName, CIRCLE_INPUTS, CIRCLE_LABELS } from '../utils/constructions';
+import { isLinear, isConicLike, isShown, objectKind, clampToExtent, ConicEntity } from '../utils/objects';
+import { MEASURE_INPUTS, MEASURE_LABELS, formatMeasure } from '../utils/measurements';
+import { evaluateExpression } from '../utils/expression';
+import { recordMacro, applyMacro, macroAccepts, describeMacroInputs, MACRO_INPUT_KINDS } from '../utils/macros';
+import { findSnap, buildSnappedPoint, SnapTarget } from '../utils/snapping';
+import { getViewBounds as computeViewBounds, getLineEndpoints, getLineAtInfinityFrame, getPointAtInfinityMarkers, getRayEnd, sampleParabola, sampleHyperbolaBranch, getGridTicks, toPathData, strokeDashArray, isInsideBounds } from '../utils/render';
 
 interface GeometryCanvasProps {
   objects: GeoEntity[];
-  selectedId: string | null;
+  selectedIds: string[];
   tool: ToolType;
-  onSelect: (id: string | null) => void;
+  view: ViewTransform;
+  onViewChange: (view: ViewTransform) => void;
+  onSelect: (ids: string[]) => void;
   onUpdate: (id: string, changes: Partial<GeoEntity>) => void;
+  // Moves several objects with a single solve (group drags)
+  onUpdateMany: (updates: Record<string, Partial<GeoEntity>>) => void;
   onAdd: (obj: GeoEntity) => void;
   onDelete: (id: string) => void;
+  // Brackets a continuous interaction (drag, eraser stroke) so it is undone as one step
+  onGestureStart: () => void;
+  onGestureEnd: () => void;
   eraserSize: number;
+  // What the Point tool snaps to
+  snapSettings: SnapSettings;
+  // Custom tool applied by the MACRO tool
+  macro: MacroTool | null;
+  onSaveMacro: (macro: MacroTool) => void;
+  onDeleteMacro: (id: string) => void;
+  onExportMacro: (macro: MacroTool) => void;
 }
 
+const toggleId = (ids: string[], id: string) => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id];
+
+// Points the Select tool can drag (alone or together with the other selected ones)
+const isDraggablePoint = (obj: GeoEntity): obj is GeoPoint =>
+  obj.type === ObjectType.POINT && (obj.isFree || !!obj.onLineId || !!obj.onConicId) && !obj.bindings;
+
+// A box smaller than this (in pixels) is a click, not a box selection
+const MIN_BOX_SIZE = 4;
+
 export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
   objects,
-  selectedId,
+  selectedIds,
   tool,
+  view,
+  onViewChange,
   onSelect,
   onUpdate,
+  onUpdateMany,
   onAdd,
   onDelete,
+  onGestureStart,
+  onGestureEnd,
   eraserSize,
+  snapSettings,
+  macro,
+  onSaveMacro,
+  onDeleteMacro,
+  onExportMacro,
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
-  // Initial scale 50: 50px = 1 unit
-  const [transform, setTransform] = useState(d3.zoomIdentity.translate(window.innerWidth / 2, window.innerHeight / 2).scale(50)); 
+  // The view is owned by App (it is saved with the document); d3 only drives it
+  const transform = useMemo(() => d3.zoomIdentity.translate(view.x, view.y).scale(view.k), [view]);
   
   // Coordinate System UI State
   const [cursorPos, setCursorPos] = useState({ x: 0, y: 0 });
   // Raw mouse client position for DOM element detection (Eraser)
   const [clientPos, setClientPos] = useState({ x: 0, y: 0 });
   const [focusInput, setFocusInput] = useState({ x: '0', y: '0' });
+  // Where the Point tool would place a point under the cursor
+  const [snap, setSnap] = useState<SnapTarget | null>(null);
+  // Inputs collected so far by construction tools; kept apart from the selection
+  const [pendingIds, setPendingIds] = useState<string[]>([]);
+  // Shift-drag selection rectangle, in screen coordinates
+  const [box, setBox] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+  // Swallow the click that ends a box selection or a group drag
+  const boxEndedRef = useRef(false);
+  const groupDraggedRef = useRef(false);
+  // What the Measure tool creates
+  const [measureType, setMeasureType] = useState<MeasureType>(MeasureType.DISTANCE);
+  // What the Circle tool creates
+  const [circleDefinition, setCircleDefinition] = useState<CircleDefinition>(CircleDefinition.CENTER_POINT);
+
+  // Define Tool: the inputs are collected in `pendingIds`, then the outputs here
+  const [macroStage, setMacroStage] = useState<'inputs' | 'outputs'>('inputs');
+  const [macroOutputIds, setMacroOutputIds] = useState<string[]>([]);
+  const [macroName, setMacroName] = useState('');
+  const [macroError, setMacroError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPendingIds([]);
+  }, [tool, measureType, circleDefinition, macro?.id]);
+
+  useEffect(() => {
+    setSnap(null);
+  }, [tool, snapSettings]);
+
+  useEffect(() => {
+    setMacroStage('inputs');
+    setMacroOutputIds([]);
+    setMacroName('');
+    setMacroError(null);
+  }, [tool]);
 
   // D3 Zoom behavior
   useEffect(() => {
@@ -42,13 +119,16 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
     const zoom = d3.zoom<SVGSVGElement, unknown>()
       .scaleExtent([5, 500]) // Allow deeper zoom
       .on('zoom', (event) => {
-        setTransform(event.transform);
+        const { x, y, k } = event.transform;
+        onViewChange({ x, y, k });
       })
       .filter((event) => {
         // Prevent zoom on right click, if internal logic stopped propagation, OR if using Eraser
         if (event.defaultPrevented) return false;
         // Disable zoom panning when Eraser is active
         if (tool === ToolType.ERASER) return false;
+        // Shift-drag draws a selection box instead of panning
+        if (tool === ToolType.SELECT && event.type === 'mousedown' && event.shiftKey) return false;
         return true;
       });
     
@@ -57,6 +137,15 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
     svg.call(zoom).on("dblclick.zoom", null);
   }, [tool]); // Re-bind if tool changes to update filter
 
+  // Keep d3's internal transform in sync when the view is set from outside (initial view, opened file)
+  useEffect(() => {
+    if (!svgRef.current || !zoomRef.current) return;
+    const current = d3.zoomTransform(svgRef.current);
+    if (current.x !== view.x || current.y !== view.y || current.k !== view.k) {
+      d3.select(svgRef.current).call(zoomRef.current.transform, transform);
+    }
+  }, [view, transform]);
+
   // Coordinate conversion
   const toScreen = (x: number, y: number) => ({
     x: transform.applyX(x),
@@ -77,10 +166,10 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
       e.preventDefault();
       if (!zoomRef.current || !svgRef.current) return;
       
-      const x = parseFloat(focusInput.x);
-      const y = parseFloat(focusInput.y);
+      const { value: x } = evaluateExpression(focusInput.x);
+      const { value: y } = evaluateExpression(focusInput.y);
       
-      if (isNaN(x) || isNaN(y)) return;
+      if (x === null || y === null) return;
       
       const width = svgRef.current.clientWidth;
       const height = svgRef.current.clientHeight;
@@ -98,9 +187,52 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
         .call(zoomRef.current.transform, newTransform);
   };
 
+  const selectedSet = new Set(selectedIds);
+  const pendingObjects = pendingIds.map(id => objects.find(o => o.id === id)).filter((o): o is GeoEntity => !!o);
+
+  // Inputs of multi-click tools and the outputs of a tool being defined are highlighted
+  const isPicked = (id: string) => pendingIds.includes(id) || macroOutputIds.includes(id);
+
+  const namesOf = (ids: string[]) => ids.map(id => objects.find(o => o.id === id)?.name).filter(Boolean).join(', ');
+
+  const handleSaveMacro = (e: React.FormEvent) => {
+    e.preventDefault();
+    const { macro: recorded, error } = recordMacro(macroName, pendingIds, macroOutputIds, objects);
+    if (error) {
+      setMacroError(error);
+      return;
+    }
+    onSaveMacro(recorded);
+  };
+
+  // Snap target under the cursor, or none while Alt is held
+  const snapAt = (e: React.MouseEvent) => {
+    if (e.altKey) return null;
+    const { x, y } = toWorld(e.clientX, e.clientY);
+    return findSnap(x, y, objects, snapSettings, transform.k);
+  };
+
+  const addPointAt = (e: React.MouseEvent) => {
+    const { x, y } = toWorld(e.clientX, e.clientY);
+    const target = snapAt(e);
+    const point = buildSnappedPoint(target, x, y, objects);
+    // On an existing point: select it instead of adding a second one
+    if (!point) {
+        onSelect(target!.ids);
+        return;
+    }
+    onAdd(point);
+    // Constrained points are selected, so the Property Panel shows what they are bound to
+    if (target?.kind === SnapKind.OBJECT) onSelect([point.id]);
+  };
+
   // Handlers
   const handleSvgClick = (e: React.MouseEvent) => {
     if (e.defaultPrevented) return; 
+    if (boxEndedRef.current) {
+      boxEndedRef.current = false;
+      return;
+    }
     
     const { x, y } = toWorld(e.clientX, e.clientY);
 
@@ -108,63 +240,30 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
     if (tool === ToolType.ERASER) return;
 
     if (tool === ToolType.SELECT) {
-      onSelect(null);
+      // Shift-clicks add to the selection, so a missed one keeps it
+      if (!e.shiftKey) onSelect([]);
     } else if (tool === ToolType.POINT) {
-      const newPoint: GeoPoint = {
-        id: crypto.randomUUID(),
-        type: ObjectType.POINT,
-        name: `P${objects.filter(o => o.type === ObjectType.POINT).length + 1}`,
-        color: '#ffffff',
-        x,
-        y,
-        isFree: true
-      };
-      onAdd(newPoint);
+      addPointAt(e);
     } else if (tool === ToolType.CONIC) {
-        const newConic: GeoConic = {
-            id: crypto.randomUUID(),
-            type: ObjectType.CONIC,
-            conicType: ConicType.ELLIPSE,
-            name: `C${objects.filter(o => o.type === ObjectType.CONIC).length + 1}`,
-            color: '#f59e0b',
-            cx: x,
-            cy: y,
-            a: 2,
-            b: 1,
-            rotation: 0,
-            coeffs: { A:0, B:0, C:0, D:0, E:0, F:0} 
-        };
-        onAdd(newConic);
+        onAdd(buildConic(numberedName('C', ObjectType.CONIC, objects), ConicType.ELLIPSE, x, y, 2, 1));
     } else if (tool === ToolType.LINE) {
-        if (selectedId) {
-           const prev = objects.find(o => o.id === selectedId);
-           if (prev && prev.type === ObjectType.POINT) {
-                const newLine: GeoLine = {
-                    id: crypto.randomUUID(),
-                    type: ObjectType.LINE,
-                    name: `L(${prev.name})`,
-                    color: '#3b82f6',
-                    isFree: true,
-                    a: 0, b: 0, c: 0,
-                    pivotPointId: prev.id,
-                    angle: 0 
-                };
-                onAdd(newLine);
-                onSelect(null);
-                return;
-           }
+        // With a point picked, a line turning around it; otherwise a free line
+        const pivot = pendingObjects[0];
+        if (pivot?.type === ObjectType.POINT) {
+            onAdd(buildPivotLine(pivot));
+            setPendingIds([]);
+            return;
         }
 
         const newLine: GeoLine = {
             id: crypto.randomUUID(),
             type: ObjectType.LINE,
-            name: `L${objects.filter(o => o.type === ObjectType.LINE).length + 1}`,
+            name: numberedName('L', ObjectType.LINE, objects),
             color: '#3b82f6',
             isFree: true,
             a: 1, b: -1, c: y - x
         };
         onAdd(newLine);
-        onSelect(null);
     }
   };
 
@@ -180,201 +279,174 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
     e.stopPropagation();
     e.preventDefault(); 
     
-    if (tool === ToolType.POINT && obj.type === ObjectType.LINE) {
-        const { x, y } = toWorld(e.clientX, e.clientY);
-        const newPoint: GeoPoint = {
-            id: crypto.randomUUID(),
-            type: ObjectType.POINT,
-            name: `P${objects.filter(o => o.type === ObjectType.POINT).length + 1}`,
-            color: '#ffffff',
-            x,
-            y,
-            isFree: false,
-            onLineId: obj.id
-        };
-        onAdd(newPoint);
-        onSelect(newPoint.id);
+    if (tool === ToolType.POINT) {
+        addPointAt(e);
         return;
     }
 
-    onSelect(obj.id);
-
-    if (tool === ToolType.LINE && selectedId && obj.type === ObjectType.POINT) {
-        const prev = objects.find(o => o.id === selectedId);
-        if (prev && prev.type === ObjectType.POINT && prev.id !== obj.id) {
-             onAdd({
-                 id: crypto.randomUUID(),
-                 type: ObjectType.LINE,
-                 name: `L(${prev.name},${obj.name})`,
-                 color: '#3b82f6',
-                 a:0, b:0, c:0,
-                 isFree: false,
-                 p1Id: prev.id,
-                 p2Id: obj.id
-             } as GeoLine);
-             onSelect(null);
+    if (tool === ToolType.SELECT) {
+        // A group drag ends without changing the selection
+        if (groupDraggedRef.current) {
+            groupDraggedRef.current = false;
+            return;
         }
+        onSelect(e.shiftKey ? toggleId(selectedIds, obj.id) : [obj.id]);
+        return;
     }
-    else if (tool === ToolType.INTERSECT && selectedId) {
-        const prev = objects.find(o => o.id === selectedId);
-        if (prev) {
-            let l: GeoLine | null = null;
-            let c: GeoConic | null = null;
-
-            if (prev.type === ObjectType.LINE && obj.type === ObjectType.CONIC) {
-                l = prev as GeoLine; c = obj as GeoConic;
-            } else if (prev.type === ObjectType.CONIC && obj.type === ObjectType.LINE) {
-                c = prev as GeoConic; l = obj as GeoLine;
-            }
 
-            if (l && c) {
-                const i1: GeoPoint = {
-                    id: crypto.randomUUID(),
-                    type: ObjectType.POINT,
-                    name: `I1(${l.name},${c.name})`,
-                    color: '#ffffff',
-                    x: 0, y: 0,
-                    isFree: false,
-                    dependencies: [l.id, c.id],
-                    solutionIndex: 0
-                };
-                 const i2: GeoPoint = {
-                    id: crypto.randomUUID(),
-                    type: ObjectType.POINT,
-                    name: `I2(${l.name},${c.name})`,
-                    color: '#ffffff',
-                    x: 0, y: 0,
-                    isFree: false,
-                    dependencies: [l.id, c.id],
-                    solutionIndex: 1
-                };
-                onAdd(i1);
-                onAdd(i2);
-                onSelect(null);
-            } 
-            else if (prev.type === ObjectType.LINE && obj.type === ObjectType.LINE) {
-                const l1 = prev as GeoLine;
-                const l2 = obj as GeoLine;
-                const i: GeoPoint = {
-                    id: crypto.randomUUID(),
-                    type: ObjectType.POINT,
-                    name: `I(${l1.name},${l2.name})`,
-                    color: '#ffffff',
-                    x: 0, y: 0,
-                    isFree: false,
-                    dependencies: [l1.id, l2.id]
-                };
-                onAdd(i);
-                onSelect(null);
-            }
+    // Two-input tools: the first accepted click is kept in `pendingIds`; the second builds the
+    // objects, or becomes the new first input when the pair does not fit
+    const pair = (accepts: (o: GeoEntity) => boolean, build: (a: GeoEntity, b: GeoEntity) => GeoEntity[] | null) => {
+        if (!accepts(obj)) return;
+        const prev = pendingObjects.length === 1 ? pendingObjects[0] : null;
+        const built = prev && prev.id !== obj.id ? build(prev, obj) : null;
+        if (built && built.length > 0) {
+            built.forEach(onAdd);
+            setPendingIds([]);
+        } else {
+            setPendingIds([obj.id]);
         }
-    }
-    else if (tool === ToolType.TANGENT && selectedId) {
-        const prev = objects.find(o => o.id === selectedId);
-        if (prev) {
-             let p: GeoPoint | null = null;
-             let c: GeoConic | null = null;
-             if (prev.type === ObjectType.POINT && obj.type === ObjectType.CONIC) {
-                 p = prev as GeoPoint; c = obj as GeoConic;
-             } else if (prev.type === ObjectType.CONIC && obj.type === ObjectType.POINT) {
-                 c = prev as GeoConic; p = obj as GeoPoint;
-             }
+    };
+    const isPoint = (o: GeoEntity) => o.type === ObjectType.POINT;
+    // The point and the conic of a pair picked in either order
+    const pointAndConic = (a: GeoEntity, b: GeoEntity) => {
+        const p = a.type === ObjectType.POINT ? a : b.type === ObjectType.POINT ? b : null;
+        const c = isConicLike(a) ? a : isConicLike(b) ? b : null;
+        return p && c ? { p, c } : null;
+    };
 
-             if (p && c) {
-                 // 1. Create hidden polar line
-                 const polarId = crypto.randomUUID();
-                 const polar: GeoLine = {
-                     id: polarId,
-                     type: ObjectType.LINE,
-                     name: `Polar(${p.name})`,
-                     color: '#666',
-                     isFree: false, a:0, b:0, c:0,
-                     dependencies: [p.id, c.id],
-                     hidden: true
-                 };
-
-                 // 2. Create intersection points (tangency points)
-                 const t1Id = crypto.randomUUID();
-                 const t1: GeoPoint = {
-                     id: t1Id, type: ObjectType.POINT, name: `T1`, color: '#d1d5db',
-                     x:0, y:0, isFree: false, dependencies: [polarId, c.id], solutionIndex: 0
-                 };
-                 const t2Id = crypto.randomUUID();
-                 const t2: GeoPoint = {
-                     id: t2Id, type: ObjectType.POINT, name: `T2`, color: '#d1d5db',
-                     x:0, y:0, isFree: false, dependencies: [polarId, c.id], solutionIndex: 1
-                 };
-
-                 // 3. Create tangent lines
-                 const l1: GeoLine = {
-                     id: crypto.randomUUID(), type: ObjectType.LINE, name: `Tan1(${p.name})`, color: '#a78bfa',
-                     isFree: false, a:0, b:0, c:0, p1Id: p.id, p2Id: t1Id
-                 };
-                 const l2: GeoLine = {
-                     id: crypto.randomUUID(), type: ObjectType.LINE, name: `Tan2(${p.name})`, color: '#a78bfa',
-                     isFree: false, a:0, b:0, c:0, p1Id: p.id, p2Id: t2Id
-                 };
-
-                 onAdd(polar);
-                 onAdd(t1);
-                 onAdd(t2);
-                 onAdd(l1);
-                 onAdd(l2);
-                 onSelect(null);
-             }
+    if (tool === ToolType.LINE) {
+        pair(isPoint, (a, b) => [buildLineThroughPoints(a as GeoPoint, b as GeoPoint)]);
+    }
+    else if (tool === ToolType.SEGMENT || tool === ToolType.RAY) {
+        pair(isPoint, (a, b) => [buildBoundedLine(tool === ToolType.SEGMENT ? ObjectType.SEGMENT : ObjectType.RAY, a as GeoPoint, b as GeoPoint)]);
+    }
+    else if (tool === ToolType.CIRCLE && obj.type === ObjectType.POINT) {
+        if (pendingIds.includes(obj.id)) return;
+        const picked = [...pendingIds, obj.id];
+        if (picked.length < CIRCLE_INPUTS[circleDefinition]) {
+            setPendingIds(picked);
+            return;
         }
+        const points = picked.map(id => objects.find(o => o.id === id)).filter((p): p is GeoPoint => p?.type === ObjectType.POINT);
+        const circle = buildCircle(circleDefinition, points);
+        onAdd(circle);
+        setPendingIds([]);
+        // The radius of a new center & radius circle is edited in the Property Panel
+        if (circleDefinition === CircleDefinition.CENTER_RADIUS) onSelect([circle.id]);
+    }
+    else if (tool === ToolType.INTERSECT) {
+        pair(o => isLinear(o) || isConicLike(o), buildIntersections);
     }
-    else if (tool === ToolType.POLAR && selectedId && obj.type === ObjectType.CONIC) {
-        const prev = objects.find(o => o.id === selectedId);
-        if (prev && prev.type === ObjectType.POINT) {
-            onAdd({
-                id: crypto.randomUUID(),
-                type: ObjectType.LINE,
-                name: `Polar(${prev.name})`,
-                color: '#ef4444',
-                a: 0, b: 0, c: 0,
-                isFree: false,
-                dependencies: [prev.id, obj.id]
-            } as GeoLine);
-            onSelect(null);
+    else if (tool === ToolType.TANGENT) {
+        // Hidden polar line, tangency points, then the tangent lines
+        pair(o => isPoint(o) || isConicLike(o), (a, b) => {
+            const pc = pointAndConic(a, b);
+            return pc && buildTangents(pc.p as GeoPoint, pc.c as ConicEntity);
+        });
+    }
+    else if (tool === ToolType.POLAR) {
+        pair(o => isPoint(o) || isConicLike(o), (a, b) => {
+            const pc = pointAndConic(a, b);
+            return pc && [buildPolar(pc.p as GeoPoint, pc.c as ConicEntity)];
+        });
+    } else if (tool === ToolType.POLE) {
+        // Line and conic may be picked in either order
+        pair(o => isLinear(o) || isConicLike(o), (a, b) => {
+            const line = isLinear(a) ? a : isLinear(b) ? b : null;
+            const conic = isConicLike(a) ? a : isConicLike(b) ? b : null;
+            return line && conic && [buildPole(line, conic)];
+        });
+    } else if (tool === ToolType.TRIANGLE) {
+        pair(o => isPoint(o) || isConicLike(o), (a, b) => {
+            const pc = pointAndConic(a, b);
+            return pc && buildSelfPolarTriangle(pc.c as ConicEntity, pc.p as GeoPoint);
+        });
+    } else if (tool === ToolType.LOCUS) {
+        // First the driver, then a point that depends on it
+        pair(o => isLocusDriver(o) || isPoint(o), (driver, traced) =>
+            isLocusDriver(driver) && traced.type === ObjectType.POINT
+            && collectDependents(buildDependencyGraph(objects), [driver.id]).has(traced.id)
+                ? [buildLocus(driver, traced)] : null);
+    } else if (tool === ToolType.HARMONIC && obj.type === ObjectType.POINT) {
+        // A, B, then C; the third click only counts when C lies on the line AB
+        if (pendingIds.includes(obj.id)) return;
+        const picked = [...pendingIds, obj.id];
+        if (picked.length < 3) {
+            setPendingIds(picked);
+            return;
+        }
+        const [a, b] = pendingIds.map(id => objects.find(o => o.id === id));
+        if (a?.type !== ObjectType.POINT || b?.type !== ObjectType.POINT || !harmonicConjugate(a, b, obj)) return;
+        onAdd(buildHarmonicConjugate(a, b, obj));
+        setPendingIds([]);
+    } else if (tool === ToolType.TRANSFORM && obj.type === ObjectType.POINT) {
+        // Four source points, then four targets; a point may appear once in each half. The last
+        // click only counts when no three sources and no three targets are collinear.
+        const half = pendingIds.length < 4 ? pendingIds : pendingIds.slice(4);
+        if (half.includes(obj.id)) return;
+        const picked = [...pendingIds, obj.id];
+        if (picked.length < 8) {
+            setPendingIds(picked);
+            return;
+        }
+        const points = picked.map(id => objects.find(o => o.id === id)).filter((o): o is GeoPoint => o?.type === ObjectType.POINT);
+        if (points.length < 8 || !homographyFromPoints(points.slice(0, 4), points.slice(4))) return;
+        // The transform and the images of everything else form one undo step
+        const projective = buildTransform(points.slice(0, 4), points.slice(4));
+        onAdd(projective);
+        buildTransformImages(projective, objects).forEach(onAdd);
+        setPendingIds([]);
+    } else if (tool === ToolType.MEASURE) {
+        // Inputs may be picked in any order; they are sorted into MEASURE_INPUTS order at the end
+        if (pendingIds.includes(obj.id)) return;
+        const expected = MEASURE_INPUTS[measureType];
+        const picked = [...pendingIds, obj.id].map(id => objects.find(o => o.id === id)).filter((o): o is GeoEntity => !!o);
+        const remaining = [...expected];
+        const fits = picked.every(o => {
+            const i = remaining.indexOf(objectKind(o.type));
+            if (i === -1) return false;
+            remaining.splice(i, 1);
+            return true;
+        });
+        if (!fits) return;
+        if (remaining.length > 0) {
+            setPendingIds(picked.map(o => o.id));
+            return;
         }
-    } else if (tool === ToolType.POLAR && selectedId && obj.type === ObjectType.POINT) {
-        const prev = objects.find(o => o.id === selectedId);
-        if (prev && prev.type === ObjectType.CONIC) {
-             onAdd({
-                id: crypto.randomUUID(),
-                type: ObjectType.LINE,
-                name: `Polar(${obj.name})`,
-                color: '#ef4444',
-                a: 0, b: 0, c: 0,
-                isFree: false,
-                dependencies: [obj.id, prev.id]
-            } as GeoLine);
-            onSelect(null);
+        const inputs = expected.map(type => picked.splice(picked.findIndex(o => objectKind(o.type) === type), 1)[0]);
+        onAdd(buildMeasure(measureType, inputs));
+        setPendingIds([]);
+    } else if (tool === ToolType.FIVE_POINT_CONIC && obj.type === ObjectType.POINT) {
+        if (pendingIds.includes(obj.id)) return;
+        const picked = [...pendingIds, obj.id];
+        if (picked.length < 5) {
+            setPendingIds(picked);
+            return;
         }
-    } else if (tool === ToolType.TRIANGLE && selectedId && obj.type === ObjectType.POINT) {
-        const prev = objects.find(o => o.id === selectedId);
-        if (prev && prev.type === ObjectType.CONIC) {
-            const conicId = prev.id;
-            const p1Id = obj.id;
-            const l1Id = crypto.randomUUID();
-            const l1: GeoLine = { id: l1Id, type: ObjectType.LINE, name: `p(${obj.name})`, color: '#666', isFree: false, a:0,b:0,c:0, dependencies: [p1Id, conicId]};
-            const p2Id = crypto.randomUUID();
-            const p2: GeoPoint = { id: p2Id, type: ObjectType.POINT, name: `${obj.name}'`, color: '#fff', x:0, y:0, isFree: true, onLineId: l1Id }; 
-            const l2Id = crypto.randomUUID();
-            const l2: GeoLine = { id: l2Id, type: ObjectType.LINE, name: `p(${p2.name})`, color: '#666', isFree: false, a:0,b:0,c:0, dependencies: [p2Id, conicId]};
-            const p3Id = crypto.randomUUID();
-            const p3: GeoPoint = { id: p3Id, type: ObjectType.POINT, name: `${obj.name}''`, color: '#fff', x:0,y:0, isFree: false, dependencies: [l1Id, l2Id] };
-            const l3Id = crypto.randomUUID();
-            const l3: GeoLine = { id: l3Id, type: ObjectType.LINE, name: `p(${p3.name})`, color: '#666', isFree: false, a:0,b:0,c:0, dependencies: [p3Id, conicId]};
-
-            onAdd(l1);
-            onAdd(p2);
-            onAdd(l2);
-            onAdd(p3);
-            onAdd(l3);
-            onSelect(null);
+        const points = picked.map(id => objects.find(o => o.id === id)).filter((p): p is GeoPoint => p?.type === ObjectType.POINT);
+        onAdd(buildFivePointConic(numberedName('C', ObjectType.CONIC, objects), points));
+        setPendingIds([]);
+    } else if (tool === ToolType.DEFINE_MACRO) {
+        // Inputs first, then outputs; clicking a picked object again drops it
+        setMacroError(null);
+        if (macroStage === 'inputs') {
+            if (MACRO_INPUT_KINDS.includes(objectKind(obj.type))) setPendingIds(toggleId(pendingIds, obj.id));
+        } else if (!pendingIds.includes(obj.id)) {
+            setMacroOutputIds(toggleId(macroOutputIds, obj.id));
         }
+    } else if (tool === ToolType.MACRO && macro) {
+        // Inputs in the recorded order; a click of the wrong kind is ignored
+        const picked = pendingIds.map(id => objects.find(o => o.id === id)).filter((o): o is GeoEntity => !!o);
+        if (!macroAccepts(macro, picked, obj)) return;
+        const inputs = [...picked, obj];
+        if (inputs.length < macro.inputTypes.length) {
+            setPendingIds(inputs.map(o => o.id));
+            return;
+        }
+        // All copied objects form one undo step
+        applyMacro(macro, inputs).forEach(onAdd);
+        setPendingIds([]);
     }
   };
 
@@ -386,20 +458,34 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
       objStartX?: number, 
       objStartY?: number,
       objStartC?: number,
-      objStartAngle?: number
+      objStartAngle?: number,
+      // Start positions of all selected points moved together
+      group?: { id: string, x: number, y: number }[]
   } | null>(null);
 
   const handleMouseDown = (e: React.MouseEvent, obj?: GeoEntity) => {
+     boxEndedRef.current = false;
+     groupDraggedRef.current = false;
+
      if (tool === ToolType.ERASER) {
+         // The whole stroke until mouseup is a single undo step
+         onGestureStart();
          // Trigger initial erase on click
          eraseAt(e.clientX, e.clientY);
          return;
      }
 
+     // Shift-drag on the background draws a selection box
+     if (tool === ToolType.SELECT && !obj && e.shiftKey) {
+         setBox({ x0: e.clientX, y0: e.clientY, x1: e.clientX, y1: e.clientY });
+         return;
+     }
+
      if (tool !== ToolType.SELECT || !obj) return;
 
-     const canDragPoint = obj.type === ObjectType.POINT && (obj.isFree || !!obj.onLineId);
-     const canDragLine = obj.type === ObjectType.LINE && (obj.isFree || !!obj.pivotPointId);
+     // Fields bound to parameters follow the sliders instead
+     const canDragPoint = isDraggablePoint(obj);
+     const canDragLine = obj.type === ObjectType.LINE && (obj.isFree || !!obj.pivotPointId) && !obj.bindings?.angle;
 
      if (canDragPoint || canDragLine) {
          e.preventDefault();
@@ -408,6 +494,7 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
 
          const { x, y } = toWorld(e.clientX, e.clientY);
          
+         onGestureStart();
          dragStartRef.current = {
              id: obj.id,
              startX: x,
@@ -417,6 +504,12 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
          if (obj.type === ObjectType.POINT) {
              dragStartRef.current.objStartX = obj.x;
              dragStartRef.current.objStartY = obj.y;
+             // Dragging one of several selected points moves all the draggable ones
+             if (selectedSet.has(obj.id) && selectedIds.length > 1) {
+                 dragStartRef.current.group = objects
+                     .filter(o => selectedSet.has(o.id) && isDraggablePoint(o))
+                     .map(o => ({ id: o.id, x: (o as GeoPoint).x, y: (o as GeoPoint).y }));
+             }
          } else if (obj.type === ObjectType.LINE) {
              dragStartRef.current.objStartC = obj.c;
              dragStartRef.current.objStartAngle = obj.angle;
@@ -434,9 +527,11 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
 
       // 1. Analytic Distance Check for Points and Lines
       objects.forEach(obj => {
-          if (obj.hidden) return;
+          if (!isShown(obj)) return;
           
           if (obj.type === ObjectType.POINT) {
+              // Points at infinity have no position to erase at
+              if (obj.w === 0) return;
               const dist = Math.hypot(obj.x - wx, obj.y - wy);
               if (dist <= worldRadius) {
                   idsToRemove.add(obj.id);
@@ -448,10 +543,33 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
               if (dist <= worldRadius) {
                   idsToRemove.add(obj.id);
               }
+          } else if (obj.type === ObjectType.SEGMENT || obj.type === ObjectType.RAY) {
+              // Distance to the drawn part only
+              const foot = clampToExtent(obj, closestPointOnLine(wx, wy, obj));
+              if (Math.hypot(foot.x - wx, foot.y - wy) <= worldRadius) {
+                  idsToRemove.add(obj.id);
+              }
+          } else if (obj.type === ObjectType.LOCUS) {
+              // Distance to the traced polylines, piece by piece
+              const near = obj.samples.some(polyline => polyline.some((p, i) => {
+                  const q = polyline[i - 1] ?? p;
+                  const dx = p.x - q.x, dy = p.y - q.y;
+                  const len2 = dx * dx + dy * dy;
+                  const t = len2 > 0 ? Math.max(0, Math.min(1, ((wx - q.x) * dx + (wy - q.y) * dy) / len2)) : 0;
+                  return Math.hypot(q.x + t * dx - wx, q.y + t * dy - wy) <= worldRadius;
+              }));
+              if (near) {
+                  idsToRemove.add(obj.id);
+              }
+          } else if (obj.type === ObjectType.MEASURE) {
+              // Measurements are erased at their label (the rest of their drawing is decoration)
+              if (Math.hypot(obj.x - wx, obj.y - wy) <= worldRadius) {
+                  idsToRemove.add(obj.id);
+              }
           }
       });
 
-      // 2. DOM Element Check for Conics (and fallback for others)
+      // 2. DOM Element Check for Conics and measurement labels (and fallback for others)
       // Since Conics are hard to hit-test analytically without heavy math.
       // elementFromPoint only returns the TOP element. 
       // For a "broad" eraser, we might miss things if we only check the exact pixel.
@@ -462,9 +580,9 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
           const dataId = el.getAttribute('data-id');
           if (dataId) {
              const obj = objects.find(o => o.id === dataId);
-             // Only add if it's a conic, since points/lines are handled better by math (radius area)
-             // But no harm in adding others if direct hit
-             if (obj && obj.type === ObjectType.CONIC) {
+             // Only add if it's a conic or a measurement label (anywhere along its text), since
+             // points/lines are handled better by math (radius area). But no harm in adding others if direct hit
+             if ((isConicLike(obj) || obj?.type === ObjectType.MEASURE) && isShown(obj)) {
                  idsToRemove.add(dataId);
              }
           }
@@ -477,6 +595,13 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
     const world = toWorld(e.clientX, e.clientY);
     setCursorPos(world);
     setClientPos({ x: e.clientX, y: e.clientY });
+    if (tool === ToolType.POINT) setSnap(snapAt(e));
+
+    // The button was released outside the canvas: finish the drag or box here
+    if ((dragStartRef.current || box) && e.buttons === 0) {
+        handleMouseUp();
+        return;
+    }
 
     // Eraser Drag Logic
     if (tool === ToolType.ERASER) {
@@ -487,6 +612,11 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
         return;
     }
 
+    if (box) {
+        setBox({ ...box, x1: e.clientX, y1: e.clientY });
+        return;
+    }
+
     if (dragStartRef.current) {
         const { x, y } = world;
         const objId = dragStartRef.current.id;
@@ -497,6 +627,12 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
             const dx = x - dragStartRef.current.startX;
             const dy = y - dragStartRef.current.startY;
             
+            const group = dragStartRef.current.group;
+            if (group) {
+                onUpdateMany(Object.fromEntries(group.map(g => [g.id, { x: g.x + dx, y: g.y + dy }])));
+                groupDraggedRef.current = true;
+                return;
+            }
             onUpdate(objId, {
                 x: (dragStartRef.current.objStartX || 0) + dx,
                 y: (dragStartRef.current.objStartY || 0) + dy
@@ -524,31 +660,68 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
   };
 
   const handleMouseUp = () => {
+    if (box) {
+        finishBox(box);
+        setBox(null);
+    }
     dragStartRef.current = null;
+    onGestureEnd();
+  };
+
+  // Adds the objects lying entirely inside the box to the selection. Objects the user hid are
+  // included, so they can be shown again; objects that do not exist right now are not.
+  const finishBox = (b: { x0: number; y0: number; x1: number; y1: number }) => {
+    if (Math.abs(b.x1 - b.x0) < MIN_BOX_SIZE && Math.abs(b.y1 - b.y0) < MIN_BOX_SIZE) return;
+    const topLeft = toWorld(Math.min(b.x0, b.x1), Math.min(b.y0, b.y1));
+    const bottomRight = toWorld(Math.max(b.x0, b.x1), Math.max(b.y0, b.y1));
+    const bounds = { left: topLeft.x, top: topLeft.y, right: bottomRight.x, bottom: bottomRight.y };
+    const inside = objects.filter(o => !o.hidden && isInsideBounds(o, bounds)).map(o => o.id);
+    onSelect(Array.from(new Set([...selectedIds, ...inside])));
+    boxEndedRef.current = true;
   };
 
   // --- Render Helpers ---
 
+  // Visible world rectangle
+  const getViewBounds = () => computeViewBounds(transform, window.innerWidth, window.innerHeight);
+
+  // A point at infinity is drawn as a pair of arrows on the viewport border
+  const renderPointAtInfinity = (obj: GeoPoint) => {
+      const k = transform.k;
+      const isSelected = selectedSet.has(obj.id);
+
+      return (
+          <g key={obj.id} data-id={obj.id}>
+              {getPointAtInfinityMarkers(obj, getViewBounds(), 18 / k).map(({ sign, x: mx, y: my, dx, dy, angle }) => (
+                  <g key={sign} transform={`translate(${mx}, ${my})`}>
+                      <polygon
+                          data-id={obj.id}
+                          points={`${8/k},0 ${-6/k},${-6/k} ${-6/k},${6/k}`}
+                          transform={`rotate(${angle})`}
+                          fill={obj.color}
+                          stroke={isSelected ? 'white' : 'black'}
+                          strokeWidth={(isSelected ? 2 : 1)/k}
+                          className="cursor-pointer"
+                          onClick={(e) => handleObjectClick(e, obj)}
+                      />
+                      <text x={-dx * 16/k} y={-dy * 16/k + 4/k} fontSize={12/k} fill={obj.color} textAnchor="middle" className="pointer-events-none select-none font-bold">{obj.name}</text>
+                  </g>
+              ))}
+          </g>
+      );
+  };
+
   const renderGrid = () => {
-      const { x, y, k } = transform;
-      const width = window.innerWidth;
-      const height = window.innerHeight;
-      
-      const startX = (0 - x) / k;
-      const endX = (width - x) / k;
-      const startY = (0 - y) / k;
-      const endY = (height - y) / k;
-      
-      const drawStep = k >= 20 ? 1 : 5;
+      const { k } = transform;
+      const bounds = getViewBounds();
+      const startX = bounds.left;
+      const endX = bounds.right;
+      const startY = bounds.top;
+      const endY = bounds.bottom;
+      const { xs, ys } = getGridTicks(bounds, k);
 
       const ticks = [];
-      const startI = Math.floor(startX / drawStep) * drawStep;
-      const endI = Math.ceil(endX / drawStep) * drawStep;
-      const startJ = Math.floor(startY / drawStep) * drawStep;
-      const endJ = Math.ceil(endY / drawStep) * drawStep;
-
-      for (let i = startI; i <= endI; i += drawStep) {
-          const val = parseFloat(i.toFixed(2));
+      for (const val of xs) {
           const isAxis = Math.abs(val) < 0.001;
           const isMajor = val % 5 === 0;
           const stroke = isAxis ? "#9ca3af" : (isMajor ? "#4b5563" : "#374151");
@@ -559,8 +732,7 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
           );
       }
 
-      for (let j = startJ; j <= endJ; j += drawStep) {
-          const val = parseFloat(j.toFixed(2));
+      for (const val of ys) {
           const isAxis = Math.abs(val) < 0.001;
           const isMajor = val % 5 === 0;
           const stroke = isAxis ? "#9ca3af" : (isMajor ? "#4b5563" : "#374151");
@@ -574,13 +746,82 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
       return <g>{ticks}</g>;
   };
 
+  // Marker of the Point tool's snap target with what it snaps to: a ring around an existing
+  // point, a cross on an intersection, a dot on a line or conic, a plus on a grid node
+  const renderSnapIndicator = (target: SnapTarget) => {
+      const k = transform.k;
+      const color = '#facc15';
+      const names = target.ids.map(id => objects.find(o => o.id === id)?.name ?? '');
+      const label = {
+          [SnapKind.POINT]: names[0],
+          [SnapKind.INTERSECTION]: `${names[0]} ∩ ${names[1]}`,
+          [SnapKind.OBJECT]: `on ${names[0]}`,
+          [SnapKind.GRID]: `(${parseFloat(target.x.toFixed(2))}, ${parseFloat(target.y.toFixed(2))})`,
+      }[target.kind];
+      const r = 6/k;
+      return (
+          <g transform={`translate(${target.x}, ${target.y})`} className="pointer-events-none">
+              {target.kind === SnapKind.POINT && <circle r={10/k} fill="none" stroke={color} strokeWidth={1.5/k} />}
+              {target.kind === SnapKind.INTERSECTION && (
+                  <path d={`M${-r},${-r}L${r},${r}M${-r},${r}L${r},${-r}`} stroke={color} strokeWidth={2/k} />
+              )}
+              {target.kind === SnapKind.OBJECT && <circle r={3.5/k} fill={color} />}
+              {target.kind === SnapKind.GRID && (
+                  <path d={`M${-r},0L${r},0M0,${-r}L0,${r}`} stroke={color} strokeWidth={1.5/k} />
+              )}
+              <text x={12/k} y={-10/k} fontSize={11/k} fill={color} stroke="#030712" strokeWidth={3/k} paintOrder="stroke" className="select-none font-mono">
+                  {label}
+              </text>
+          </g>
+      );
+  };
+
   const renderObject = (obj: GeoEntity) => {
-    if (obj.hidden) return null; // Ensure hidden objects are not rendered
+    if (!isShown(obj)) return null;
+    // Dash pattern of the object's line style, in world units
+    const lineDash = strokeDashArray(obj.strokeStyle, 1/transform.k)?.join(' ');
 
     if (obj.type === ObjectType.CONIC) {
         const { cx, cy, a, b, rotation, conicType, color } = obj;
-        const isSelected = selectedId === obj.id;
+        const isSelected = selectedSet.has(obj.id) || isPicked(obj.id);
         const strokeWidth = isSelected ? 3/transform.k : 2/transform.k;
+
+        // Degenerate conics are drawn from their coefficients
+        if (conicType === ConicType.EMPTY) return null;
+        if (conicType === ConicType.POINT) {
+            return (
+                <circle
+                    key={obj.id}
+                    data-id={obj.id}
+                    cx={cx} cy={cy} r={7/transform.k}
+                    fill="transparent"
+                    stroke={color}
+                    strokeWidth={strokeWidth}
+                    onClick={(e) => handleObjectClick(e, obj)}
+                    className="cursor-pointer hover:opacity-80"
+                />
+            );
+        }
+        if (isDegenerateConicType(conicType)) {
+            const lines = splitDegenerateConic(getConicMatrix(obj));
+            if (!lines) return null;
+            // A double line is drawn once; a component at infinity is not drawn
+            const visible = (conicType === ConicType.DOUBLE_LINE ? [lines[0]] : lines)
+                .filter(([la, lb, lc]) => !isLineAtInfinity({ a: la, b: lb, c: lc }));
+            return (
+                <g key={obj.id} data-id={obj.id} onClick={(e) => handleObjectClick(e, obj)} className="cursor-pointer hover:opacity-80">
+                    {visible.map(([la, lb, lc], i) => {
+                        const ends = getLineEndpoints(la, lb, lc, getViewBounds());
+                        return (
+                            <g key={i}>
+                                <line data-id={obj.id} {...ends} stroke="transparent" strokeWidth={16/transform.k} />
+                                <line data-id={obj.id} {...ends} stroke={color} strokeWidth={conicType === ConicType.DOUBLE_LINE ? 2 * strokeWidth : strokeWidth} strokeDasharray={lineDash} />
+                            </g>
+                        );
+                    })}
+                </g>
+            );
+        }
         
         if (conicType === ConicType.ELLIPSE) {
              return (
@@ -591,45 +832,29 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
                     fill="transparent"
                     stroke={color}
                     strokeWidth={strokeWidth}
+                    strokeDasharray={lineDash}
                     transform={`rotate(${rotation * 180 / Math.PI}, ${cx}, ${cy})`}
                     onClick={(e) => handleObjectClick(e, obj)}
                     className="cursor-pointer hover:opacity-80"
                 />
             );
         } else if (conicType === ConicType.PARABOLA) {
-            const pathData = d3.path();
-            const range = 10; 
-            for(let t = -range; t <= range; t+=0.1) {
-                 const localX = (t*t)/(4*a);
-                 const localY = t;
-                 if (t === -range) pathData.moveTo(localX, localY);
-                 else pathData.lineTo(localX, localY);
-            }
             return (
                 <path
                     key={obj.id}
                     data-id={obj.id}
-                    d={pathData.toString()}
+                    d={toPathData(sampleParabola(a))}
                     fill="transparent"
                     stroke={color}
                     strokeWidth={strokeWidth}
+                    strokeDasharray={lineDash}
                     transform={`translate(${cx},${cy}) rotate(${rotation * 180 / Math.PI})`}
                     onClick={(e) => handleObjectClick(e, obj)}
                     className="cursor-pointer hover:opacity-80"
                 />
             )
         } else if (conicType === ConicType.HYPERBOLA) {
-             const drawBranch = (sign: number) => {
-                  const pathData = d3.path();
-                  const range = 2.5;
-                  for (let t = -range; t <= range; t+=0.1) {
-                      const localX = sign * a * Math.cosh(t);
-                      const localY = b * Math.sinh(t);
-                       if (t === -range) pathData.moveTo(localX, localY);
-                        else pathData.lineTo(localX, localY);
-                  }
-                  return pathData.toString();
-             };
+             const drawBranch = (sign: number) => toPathData(sampleHyperbolaBranch(a, b, sign));
              
              return (
                  <g key={obj.id} 
@@ -638,16 +863,129 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
                     onClick={(e) => handleObjectClick(e, obj)}
                     className="cursor-pointer hover:opacity-80"
                  >
-                     <path data-id={obj.id} d={drawBranch(1)} fill="none" stroke={color} strokeWidth={strokeWidth} />
-                     <path data-id={obj.id} d={drawBranch(-1)} fill="none" stroke={color} strokeWidth={strokeWidth} />
+                     <path data-id={obj.id} d={drawBranch(1)} fill="none" stroke={color} strokeWidth={strokeWidth} strokeDasharray={lineDash} />
+                     <path data-id={obj.id} d={drawBranch(-1)} fill="none" stroke={color} strokeWidth={strokeWidth} strokeDasharray={lineDash} />
                  </g>
              )
         }
+    } else if (obj.type === ObjectType.TRANSFORM) {
+        // Dashed links from each source point to its target
+        const points = (obj.dependencies ?? []).map(id => objects.find(o => o.id === id));
+        const isSelected = selectedSet.has(obj.id);
+        return (
+            <g key={obj.id} data-id={obj.id} onClick={(e) => handleObjectClick(e, obj)} className="cursor-pointer hover:opacity-80">
+                {points.slice(0, 4).map((s, i) => {
+                    const t = points[i + 4];
+                    if (s?.type !== ObjectType.POINT || t?.type !== ObjectType.POINT || !isShown(s) || !isShown(t) || s.w === 0 || t.w === 0) return null;
+                    return (
+                        <g key={i}>
+                            <line data-id={obj.id} x1={s.x} y1={s.y} x2={t.x} y2={t.y} stroke="transparent" strokeWidth={12/transform.k} />
+                            <line
+                                data-id={obj.id}
+                                x1={s.x} y1={s.y} x2={t.x} y2={t.y}
+                                stroke={obj.color}
+                                strokeOpacity={isSelected ? 0.9 : 0.4}
+                                strokeWidth={(isSelected ? 2 : 1)/transform.k}
+                                strokeDasharray={`${6/transform.k} ${4/transform.k}`}
+                            />
+                        </g>
+                    );
+                })}
+            </g>
+        );
+    } else if (obj.type === ObjectType.CIRCLE) {
+        const isSelected = selectedSet.has(obj.id) || isPicked(obj.id);
+        return (
+            <circle
+                key={obj.id}
+                data-id={obj.id}
+                cx={obj.cx} cy={obj.cy} r={obj.radius}
+                fill="transparent"
+                stroke={obj.color}
+                strokeWidth={isSelected ? 3/transform.k : 2/transform.k}
+                strokeDasharray={lineDash}
+                onClick={(e) => handleObjectClick(e, obj)}
+                className="cursor-pointer hover:opacity-80"
+            />
+        );
+    } else if (obj.type === ObjectType.SEGMENT || obj.type === ObjectType.RAY) {
+        const isSelected = selectedSet.has(obj.id) || isPicked(obj.id);
+        const { start } = obj;
+        const end = obj.type === ObjectType.RAY ? getRayEnd(start, obj.end, getViewBounds()) : obj.end;
+        return (
+            <g key={obj.id} data-id={obj.id}>
+                <line
+                    data-id={obj.id}
+                    x1={start.x} y1={start.y} x2={end.x} y2={end.y}
+                    stroke="transparent"
+                    strokeWidth={20/transform.k}
+                    className="cursor-pointer"
+                    onClick={(e) => handleObjectClick(e, obj)}
+                />
+                <line
+                    x1={start.x} y1={start.y} x2={end.x} y2={end.y}
+                    stroke={obj.color}
+                    strokeWidth={isSelected ? 3/transform.k : 1.5/transform.k}
+                    strokeDasharray={lineDash}
+                    strokeLinecap="round"
+                    className="pointer-events-none"
+                />
+            </g>
+        );
+    } else if (obj.type === ObjectType.LOCUS) {
+        const isSelected = selectedSet.has(obj.id);
+        return (
+            <g key={obj.id} data-id={obj.id} onClick={(e) => handleObjectClick(e, obj)} className="cursor-pointer hover:opacity-80">
+                {obj.samples.map((polyline, i) => (
+                    <g key={i}>
+                        <path data-id={obj.id} d={toPathData(polyline)} fill="none" stroke="transparent" strokeWidth={12/transform.k} />
+                        <path data-id={obj.id} d={toPathData(polyline)} fill="none" stroke={obj.color} strokeWidth={isSelected ? 3/transform.k : 2/transform.k} strokeDasharray={lineDash} strokeLinejoin="round" />
+                    </g>
+                ))}
+            </g>
+        );
+    } else if (obj.type === ObjectType.MEASURE) {
+        const k = transform.k;
+        const isSelected = selectedSet.has(obj.id);
+        const { shape, color } = obj;
+        const dash = `${4/k} ${3/k}`;
+        return (
+            <g key={obj.id} data-id={obj.id} onClick={(e) => handleObjectClick(e, obj)} className="cursor-pointer">
+                {obj.measureType === MeasureType.AREA && shape.length === 3 && (
+                    <polygon points={shape.map(p => `${p.x},${p.y}`).join(' ')} fill={color} fillOpacity={0.12} stroke={color} strokeWidth={1/k} strokeDasharray={dash} className="pointer-events-none" />
+                )}
+                {(obj.measureType === MeasureType.DISTANCE || obj.measureType === MeasureType.POINT_LINE_DISTANCE) && shape.length === 2 && (
+                    <line x1={shape[0].x} y1={shape[0].y} x2={shape[1].x} y2={shape[1].y} stroke={color} strokeWidth={1.5/k} strokeDasharray={dash} className="pointer-events-none" />
+                )}
+                {obj.measureType === MeasureType.ANGLE && shape.length > 1 && (
+                    <path d={toPathData(shape)} fill="none" stroke={color} strokeWidth={1.5/k} className="pointer-events-none" />
+                )}
+                <text
+                    data-id={obj.id}
+                    x={obj.x} y={obj.y}
+                    fontSize={12/k}
+                    fill={color}
+                    stroke="#030712"
+                    strokeWidth={3/k}
+                    paintOrder="stroke"
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    textDecoration={isSelected ? 'underline' : undefined}
+                    className="select-none font-bold font-mono"
+                >
+                    {obj.name} = {formatMeasure(obj)}
+                </text>
+            </g>
+        );
     } else if (obj.type === ObjectType.POINT) {
-        const isSelected = selectedId === obj.id;
-        const canDrag = obj.isFree || !!obj.onLineId;
+        if (obj.w === 0) return renderPointAtInfinity(obj);
+        const isSelected = selectedSet.has(obj.id);
+        const canDrag = isDraggablePoint(obj);
         return (
             <g key={obj.id} data-id={obj.id} transform={`translate(${obj.x}, ${obj.y})`}>
+                {isPicked(obj.id) && (
+                    <circle r={11/transform.k} fill="none" stroke="#3b82f6" strokeWidth={2/transform.k} className="pointer-events-none" />
+                )}
                 <circle
                     data-id={obj.id}
                     r={isSelected ? 8/transform.k : 5/transform.k}
@@ -664,29 +1002,42 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
         );
     } else if (obj.type === ObjectType.LINE) {
         const { a, b, c, color } = obj;
-        const bounds = {
-             left: (0 - transform.x) / transform.k,
-             right: (window.innerWidth - transform.x) / transform.k,
-             top: (0 - transform.y) / transform.k,
-             bottom: (window.innerHeight - transform.y) / transform.k,
-        };
+        const bounds = getViewBounds();
+        const isSelected = selectedSet.has(obj.id) || isPicked(obj.id);
+
+        // Zero vector (e.g. line through two coincident points): not a line
+        if (a === 0 && b === 0 && c === 0) return null;
+
+        // The line at infinity is drawn as a dashed frame just inside the viewport border
+        if (isLineAtInfinity(obj)) {
+            const rect = getLineAtInfinityFrame(bounds, 6 / transform.k);
+            return (
+                <g key={obj.id} data-id={obj.id}>
+                    <rect
+                        data-id={obj.id}
+                        {...rect}
+                        fill="none"
+                        stroke="transparent"
+                        strokeWidth={12/transform.k}
+                        className="cursor-pointer"
+                        onClick={(e) => handleObjectClick(e, obj)}
+                    />
+                    <rect
+                        {...rect}
+                        fill="none"
+                        stroke={color}
+                        strokeWidth={isSelected ? 3/transform.k : 1.5/transform.k}
+                        strokeDasharray={`${8/transform.k} ${6/transform.k}`}
+                        className="pointer-events-none"
+                    />
+                </g>
+            );
+        }
         
-        let x1, y1, x2, y2;
         // Standard line intersection with viewbox logic
-        if (Math.abs(b) > Math.abs(a)) {
-             x1 = bounds.left - 100; 
-             y1 = (-c - a * x1) / b;
-             x2 = bounds.right + 100;
-             y2 = (-c - a * x2) / b;
-        } else {
-             y1 = bounds.top - 100;
-             x1 = (-c - b * y1) / a;
-             y2 = bounds.bottom + 100;
-             x2 = (-c - b * y2) / a;
-        }
+        const { x1, y1, x2, y2 } = getLineEndpoints(a, b, c, bounds);
 
-        const isSelected = selectedId === obj.id;
-        const canDrag = obj.isFree || !!obj.pivotPointId;
+        const canDrag = (obj.isFree || !!obj.pivotPointId) && !obj.bindings?.angle;
 
         return (
             <g key={obj.id} data-id={obj.id} className="group">
@@ -705,6 +1056,7 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
                     x1={x1} y1={y1} x2={x2} y2={y2}
                     stroke={color}
                     strokeWidth={isSelected ? 3/transform.k : 1.5/transform.k}
+                    strokeDasharray={lineDash}
                     className="pointer-events-none"
                 />
             </g>
@@ -727,10 +1079,23 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
       >
         <g transform={`translate(${transform.x},${transform.y}) scale(${transform.k})`}>
            {renderGrid()}
-           {objects.filter(o => o.type === ObjectType.CONIC).map(renderObject)}
-           {objects.filter(o => o.type === ObjectType.LINE).map(renderObject)}
+           {objects.filter(o => o.type === ObjectType.TRANSFORM).map(renderObject)}
+           {objects.filter(o => o.type === ObjectType.LOCUS).map(renderObject)}
+           {objects.filter(isConicLike).map(renderObject)}
+           {objects.filter(isLinear).map(renderObject)}
            {objects.filter(o => o.type === ObjectType.POINT).map(renderObject)}
+           {objects.filter(o => o.type === ObjectType.MEASURE).map(renderObject)}
+           {tool === ToolType.POINT && snap && renderSnapIndicator(snap)}
         </g>
+        {box && (
+            <rect
+                x={Math.min(box.x0, box.x1)} y={Math.min(box.y0, box.y1)}
+                width={Math.abs(box.x1 - box.x0)} height={Math.abs(box.y1 - box.y0)}
+                fill="#3b82f6" fillOpacity={0.1}
+                stroke="#3b82f6" strokeWidth={1} strokeDasharray="4 3"
+                className="pointer-events-none"
+            />
+        )}
       </svg>
       
       {/* Eraser Visual Cursor */}
@@ -776,6 +1141,118 @@ export const GeometryCanvas: React.FC<GeometryCanvasProps> = ({
           </form>
       </div>
 
+      {/* Multi-click tool progress */}
+      {tool === ToolType.FIVE_POINT_CONIC && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 px-3 py-1.5 bg-gray-800/90 border border-gray-700 rounded-lg text-xs text-gray-300 pointer-events-none">
+             Click 5 points: {pendingIds.length}/5 selected
+          </div>
+      )}
+
+      {tool === ToolType.MEASURE && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 px-2 py-1.5 bg-gray-800/90 border border-gray-700 rounded-lg text-xs text-gray-300 flex items-center gap-1">
+             {Object.values(MeasureType).map(type => (
+                 <button
+                    key={type}
+                    onClick={() => setMeasureType(type)}
+                    className={`px-2 py-0.5 rounded transition-colors ${measureType === type ? 'bg-blue-600 text-white' : 'hover:bg-gray-700'}`}
+                 >
+                    {MEASURE_LABELS[type]}
+                 </button>
+             ))}
+             <span className="pl-2 text-gray-400">
+                Click {MEASURE_INPUTS[measureType].map(t => t.toLowerCase()).join(' + ')}: {pendingIds.length}/{MEASURE_INPUTS[measureType].length}
+             </span>
+          </div>
+      )}
+
+      {tool === ToolType.CIRCLE && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 px-2 py-1.5 bg-gray-800/90 border border-gray-700 rounded-lg text-xs text-gray-300 flex items-center gap-1">
+             {Object.values(CircleDefinition).map(definition => (
+                 <button
+                    key={definition}
+                    onClick={() => setCircleDefinition(definition)}
+                    className={`px-2 py-0.5 rounded transition-colors ${circleDefinition === definition ? 'bg-blue-600 text-white' : 'hover:bg-gray-700'}`}
+                 >
+                    {CIRCLE_LABELS[definition]}
+                 </button>
+             ))}
+             <span className="pl-2 text-gray-400">
+                {circleDefinition === CircleDefinition.THREE_POINTS ? 'Click 3 points' : circleDefinition === CircleDefinition.CENTER_POINT ? 'Click the center, then a point' : 'Click the center'}: {pendingIds.length}/{CIRCLE_INPUTS[circleDefinition]}
+             </span>
+          </div>
+      )}
+
+      {tool === ToolType.HARMONIC && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 px-3 py-1.5 bg-gray-800/90 border border-gray-700 rounded-lg text-xs text-gray-300 pointer-events-none">
+             Click A, B, then a point C on line AB: {pendingIds.length}/3 selected
+          </div>
+      )}
+
+      {tool === ToolType.TRANSFORM && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 px-3 py-1.5 bg-gray-800/90 border border-gray-700 rounded-lg text-xs text-gray-300 pointer-events-none">
+             {pendingIds.length < 4
+                ? `Click 4 source points: ${pendingIds.length}/4`
+                : `Click the 4 target points in the same order: ${pendingIds.length - 4}/4`}
+          </div>
+      )}
+
+      {tool === ToolType.LOCUS && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 px-3 py-1.5 bg-gray-800/90 border border-gray-700 rounded-lg text-xs text-gray-300 pointer-events-none">
+             {pendingObjects[0] && isLocusDriver(pendingObjects[0])
+                ? `Driver: ${pendingObjects[0].name}. Click a point that depends on it`
+                : 'Click a driver: a point on a line or a pivot line'}
+          </div>
+      )}
+
+      {tool === ToolType.DEFINE_MACRO && (
+          <form onSubmit={handleSaveMacro} className="absolute bottom-4 left-1/2 -translate-x-1/2 px-3 py-1.5 bg-gray-800/90 border border-gray-700 rounded-lg text-xs text-gray-300 flex items-center gap-2">
+             {macroStage === 'inputs' ? (
+                 <>
+                    <span>Click the inputs in order (points, lines, conics): {namesOf(pendingIds) || 'none'}</span>
+                    <button
+                       type="button"
+                       disabled={pendingIds.length === 0}
+                       onClick={() => setMacroStage('outputs')}
+                       className="px-2 py-0.5 rounded bg-gray-700 hover:bg-blue-600 text-white transition-colors disabled:opacity-30 disabled:hover:bg-gray-700"
+                    >
+                       Next
+                    </button>
+                 </>
+             ) : (
+                 <>
+                    <span>Click the outputs: {namesOf(macroOutputIds) || 'none'}</span>
+                    <input
+                       value={macroName}
+                       onChange={e => { setMacroName(e.target.value); setMacroError(null); }}
+                       placeholder="Tool name"
+                       className="w-28 bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-xs text-white focus:outline-none focus:border-blue-500"
+                    />
+                    <button type="button" onClick={() => { setMacroStage('inputs'); setMacroOutputIds([]); setMacroError(null); }} className="px-2 py-0.5 rounded hover:bg-gray-700 transition-colors">
+                       Back
+                    </button>
+                    <button type="submit" className="px-2 py-0.5 rounded bg-blue-600 hover:bg-blue-500 text-white transition-colors">
+                       Save Tool
+                    </button>
+                 </>
+             )}
+             {macroError && <span className="text-red-400">{macroError}</span>}
+          </form>
+      )}
+
+      {tool === ToolType.MACRO && macro && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 px-3 py-1.5 bg-gray-800/90 border border-gray-700 rounded-lg text-xs text-gray-300 flex items-center gap-2">
+             <span>
+                <span className="font-bold text-white">{macro.name}</span>: click {describeMacroInputs(macro)}: {pendingIds.length}/{macro.inputTypes.length}
+             </span>
+             <button onClick={() => onExportMacro(macro)} className="px-2 py-0.5 rounded hover:bg-gray-700 transition-colors">
+                Export
+             </button>
+             <button onClick={() => onDeleteMacro(macro.id)} className="px-2 py-0.5 rounded text-red-400 hover:bg-red-900/40 transition-colors">
+                Delete
+             </button>
+          </div>
+      )}
+
       {/* Coordinates indicator */}
       <div className="absolute bottom-4 left-4 text-gray-500 font-mono text-xs pointer-events-none">
          Scale: 1 unit = {transform.k.toFixed(1)}px
@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { X, MousePointer2, Circle, Minus, Diamond, PenTool, Triangle, XCircle, Slash } from 'lucide-react';
+import { X, MousePointer2, Circle, Minus, Diamond, PenTool, Triangle, XCircle, Slash, Pentagon, Spline, Ruler, Ratio, GitCommitHorizontal, Radius, Rotate3d, SlidersHorizontal, Terminal, WandSparkles } from 'lucide-react';
 
 interface HelpModalProps {
   isOpen: boolean;
@@ -34,6 +34,7 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
                 </div>
                 <p className="text-sm text-gray-400">
                   Click objects to view and edit properties in the right panel. Drag points or lines to modify the geometry dynamically.
+                  Shift-click or Shift-drag a box to select several objects; drag one of them to move all selected points, and set their color, visibility or line style together.
                 </p>
               </div>
               
@@ -41,7 +42,7 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
                 <div className="flex items-center gap-2 mb-2 text-white">
                   <Circle size={20} className="text-blue-400" /> <span className="font-bold">Point</span>
                 </div>
-                <p className="text-sm text-gray-400">Click anywhere on the canvas to create a free point.</p>
+                <p className="text-sm text-gray-400">Click anywhere on the canvas to create a free point. Near a point, an intersection, a line or conic, or a grid node the point snaps to it (shown in yellow); a point snapped onto a line or conic stays on it. Hold Alt to place it freely.</p>
               </div>
 
               <div className="bg-gray-800/40 p-4 rounded-xl border border-gray-700/50 hover:border-gray-600 transition-colors">
@@ -55,6 +56,24 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
                 </ul>
               </div>
 
+              <div className="bg-gray-800/40 p-4 rounded-xl border border-gray-700/50 hover:border-gray-600 transition-colors">
+                <div className="flex items-center gap-2 mb-2 text-white">
+                  <GitCommitHorizontal size={20} className="text-blue-400" /> <span className="font-bold">Segment & Ray</span>
+                </div>
+                <p className="text-sm text-gray-400">
+                  Click two points for the segment between them (G), or for the ray from the first through the second (Y). Intersections that fall outside a segment or ray are hidden, and points placed on one stay within it. Three segments make a triangle for inscribed and circumscribed conics.
+                </p>
+              </div>
+
+              <div className="bg-gray-800/40 p-4 rounded-xl border border-gray-700/50 hover:border-gray-600 transition-colors">
+                <div className="flex items-center gap-2 mb-2 text-white">
+                  <Radius size={20} className="text-blue-400" /> <span className="font-bold">Circle</span>
+                </div>
+                <p className="text-sm text-gray-400">
+                  Choose Center & Point, Center & Radius or Three Points at the bottom of the canvas, then click the points. Circles work wherever a conic does: tangents, polars, poles and intersections.
+                </p>
+              </div>
+
               <div className="bg-gray-800/40 p-4 rounded-xl border border-gray-700/50 hover:border-gray-600 transition-colors">
                 <div className="flex items-center gap-2 mb-2 text-white">
                   <Diamond size={20} className="text-blue-400" /> <span className="font-bold">Conic</span>
@@ -62,12 +81,30 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
                 <p className="text-sm text-gray-400">Creates a standard Ellipse centered at the click. You can change it to a Hyperbola or Parabola in the properties panel.</p>
               </div>
 
+              <div className="bg-gray-800/40 p-4 rounded-xl border border-gray-700/50 hover:border-gray-600 transition-colors">
+                <div className="flex items-center gap-2 mb-2 text-white">
+                  <Pentagon size={20} className="text-blue-400" /> <span className="font-bold">Conic through 5 Points</span>
+                </div>
+                <p className="text-sm text-gray-400">
+                  Click five existing points to create the unique conic through them. It follows the points as they move; if four of them become collinear the conic is undetermined and hidden.
+                </p>
+              </div>
+
               <div className="bg-gray-800/40 p-4 rounded-xl border border-gray-700/50 hover:border-gray-600 transition-colors">
                 <div className="flex items-center gap-2 mb-2 text-white">
                   <XCircle size={20} className="text-blue-400" /> <span className="font-bold">Intersect</span>
                 </div>
                 <p className="text-sm text-gray-400">
-                  Select this tool, then click two objects (Line + Line or Line + Conic) to generate intersection points.
+                  Select this tool, then click two objects (Line + Line, Line + Conic or Conic + Conic) to generate intersection points. Two conics meet in up to four points; points that are not real are hidden. The points follow their branches as things move; use Reset Branches in the Property Panel to restore their original order.
+                </p>
+              </div>
+
+              <div className="bg-gray-800/40 p-4 rounded-xl border border-gray-700/50 hover:border-gray-600 transition-colors">
+                <div className="flex items-center gap-2 mb-2 text-white">
+                  <Ruler size={20} className="text-blue-400" /> <span className="font-bold">Measure</span>
+                </div>
+                <p className="text-sm text-gray-400">
+                  Choose Distance, Point–Line Distance, Angle, Triangle Area, Slope or Cross-Ratio at the bottom of the canvas, then click the points and lines it needs. The value stays on the sketch and follows the construction.
                 </p>
               </div>
 
@@ -79,6 +116,33 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
                    Select this tool, then click a <span className="text-white font-semibold">Point</span> and a <span className="text-white font-semibold">Conic</span> to create tangent lines from the point to the conic.
                 </p>
               </div>
+
+              <div className="bg-gray-800/40 p-4 rounded-xl border border-gray-700/50 hover:border-gray-600 transition-colors">
+                <div className="flex items-center gap-2 mb-2 text-white">
+                  <SlidersHorizontal size={20} className="text-violet-400" /> <span className="font-bold">Parameters</span>
+                </div>
+                <p className="text-sm text-gray-400">
+                  Add a slider with + in the Parameters box (bottom left). Type an expression in its name, such as <span className="font-mono text-white">2 + t</span>, into a conic's axes or rotation, a point's X/Y, a pivot line's angle or a circle's radius to bind that field to the slider.
+                </p>
+              </div>
+
+              <div className="bg-gray-800/40 p-4 rounded-xl border border-gray-700/50 hover:border-gray-600 transition-colors">
+                <div className="flex items-center gap-2 mb-2 text-white">
+                  <Terminal size={20} className="text-blue-400" /> <span className="font-bold">Command Bar</span>
+                </div>
+                <p className="text-sm text-gray-400">
+                  Press <span className="font-mono text-white">/</span> and type, e.g. <span className="font-mono text-white">A = (1, 2)</span>, <span className="font-mono text-white">c = Ellipse((0, 0), 3, 2, 0)</span>, <span className="font-mono text-white">Polar(A, c)</span> or <span className="font-mono text-white">Tangents(A, c)</span>. Tab completes commands and names; the suggestions show what each command expects.
+                </p>
+              </div>
+
+              <div className="bg-gray-800/40 p-4 rounded-xl border border-gray-700/50 hover:border-gray-600 transition-colors">
+                <div className="flex items-center gap-2 mb-2 text-white">
+                  <WandSparkles size={20} className="text-blue-400" /> <span className="font-bold">Custom Tools</span>
+                </div>
+                <p className="text-sm text-gray-400">
+                  Click <span className="text-white font-semibold">Define Tool</span>, click the inputs (points, lines, conics) in order, press Next, click the outputs and save with a name. The new tool appears in the Toolbar and builds the same construction on new inputs. Tools are saved with the document and can be exported to share.
+                </p>
+              </div>
             </div>
           </section>
 
@@ -100,6 +164,7 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
                   <div className="bg-purple-900/20 border border-purple-500/30 p-3 rounded-lg">
                     <p className="text-xs font-mono text-purple-200 mb-1">USAGE</p>
                     <p className="text-sm text-gray-300">Select the tool, click a <span className="text-white font-semibold">Point</span>, then click a <span className="text-white font-semibold">Conic</span> to generate the Polar Line.</p>
+                    <p className="text-sm text-gray-300 mt-1">The <span className="text-white font-semibold">Pole of Line</span> tool (F) goes the other way: click a <span className="text-white font-semibold">Line</span> and a <span className="text-white font-semibold">Conic</span> (in either order) to construct the line's Pole.</p>
                   </div>
                 </div>
               </div>
@@ -117,6 +182,51 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
                     <p className="text-sm text-gray-300">Select the tool, click a <span className="text-white font-semibold">Conic</span>, then click a starting <span className="text-white font-semibold">Point</span>. The app will construct the full triangle.</p>
                   </div>
               </div>
+
+              <div className="border-t border-gray-800/50 pt-6">
+                 <div className="flex items-center gap-2 mb-3 text-white">
+                    <Ratio size={20} className="text-lime-400" /> 
+                    <span className="font-bold text-lg">Cross-Ratio & Harmonic Conjugates</span>
+                  </div>
+                  <p className="text-gray-300 text-sm leading-relaxed mb-3">
+                    The cross-ratio (A, B; C, D) = (AC·BD)/(AD·BC) of four collinear points, or of four lines through one point, is unchanged by projective transformations.
+                    D is the harmonic conjugate of C with respect to A and B when the cross-ratio is −1; the conjugate of the midpoint of AB is the point at infinity of the line.
+                  </p>
+                  <div className="bg-lime-900/20 border border-lime-500/30 p-3 rounded-lg">
+                    <p className="text-xs font-mono text-lime-200 mb-1">USAGE</p>
+                    <p className="text-sm text-gray-300">Measure the cross-ratio with the Measure tool (M) by clicking four <span className="text-white font-semibold">Points</span> or <span className="text-white font-semibold">Lines</span> in the order A, B, C, D. The <span className="text-white font-semibold">Harmonic Conjugate</span> tool (H) takes A, B and then a point C on line AB.</p>
+                  </div>
+              </div>
+
+              <div className="border-t border-gray-800/50 pt-6">
+                 <div className="flex items-center gap-2 mb-3 text-white">
+                    <Rotate3d size={20} className="text-indigo-400" /> 
+                    <span className="font-bold text-lg">Projective Transformations</span>
+                  </div>
+                  <p className="text-gray-300 text-sm leading-relaxed mb-3">
+                    A projective transformation is fixed by where it sends four points, no three of them collinear. It maps lines to lines and conics to conics, and keeps incidence, tangency, poles and polars, and cross-ratios.
+                    The transformed copy follows the original, so moving an object shows which relations survive: a circle may become any conic, while the image of a tangent stays tangent.
+                  </p>
+                  <div className="bg-indigo-900/20 border border-indigo-500/30 p-3 rounded-lg">
+                    <p className="text-xs font-mono text-indigo-200 mb-1">USAGE</p>
+                    <p className="text-sm text-gray-300">Select the tool (J), click four source <span className="text-white font-semibold">Points</span>, then the four target <span className="text-white font-semibold">Points</span> in the same order. Every other object gets an image; deleting the transformation removes them.</p>
+                  </div>
+              </div>
+
+              <div className="border-t border-gray-800/50 pt-6">
+                 <div className="flex items-center gap-2 mb-3 text-white">
+                    <Spline size={20} className="text-cyan-400" /> 
+                    <span className="font-bold text-lg">Locus</span>
+                  </div>
+                  <p className="text-gray-300 text-sm leading-relaxed mb-3">
+                    A locus is the curve a dependent point traces while one input moves, such as the pole of a line turning around a fixed point (which stays on the polar of that point).
+                    When the locus is a conic, the Property Panel shows its equation and can add it as a conic.
+                  </p>
+                  <div className="bg-cyan-900/20 border border-cyan-500/30 p-3 rounded-lg">
+                    <p className="text-xs font-mono text-cyan-200 mb-1">USAGE</p>
+                    <p className="text-sm text-gray-300">Select the tool (U), click the driver (a <span className="text-white font-semibold">Point on a Line</span> or a <span className="text-white font-semibold">Pivot Line</span>), then click a <span className="text-white font-semibold">Point</span> that depends on it.</p>
+                  </div>
+              </div>
             </div>
           </section>
 
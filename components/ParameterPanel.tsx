@@ -0,0 +1,71 @@
+import React from 'react';
+import { Plus, SlidersHorizontal } from 'lucide-react';
+import { GeoEntity, GeoParameter } from '../types';
+import { buildParameter } from '../utils/constructions';
+import { isParameter, nextParameterName } from '../utils/parameters';
+
+interface ParameterPanelProps {
+  objects: GeoEntity[];
+  selectedIds: string[];
+  onSelect: (ids: string[]) => void;
+  onUpdate: (id: string, changes: Partial<GeoEntity>) => void;
+  onAdd: (obj: GeoEntity) => void;
+  // Brackets slider drags so they are undone as one step
+  onGestureStart: () => void;
+  onGestureEnd: () => void;
+}
+
+// Number of slider steps across a parameter's range
+const SLIDER_STEPS = 1000;
+
+// Sliders of all parameters, in the bottom left corner of the canvas. Clicking a name selects
+// the parameter (its name and range are edited in the Property Panel).
+export const ParameterPanel: React.FC<ParameterPanelProps> = ({ objects, selectedIds, onSelect, onUpdate, onAdd, onGestureStart, onGestureEnd }) => {
+  const parameters = objects.filter(isParameter);
+
+  const renderSlider = (p: GeoParameter) => (
+    <div key={p.id} className="flex items-center gap-2">
+      <button
+        onClick={() => onSelect([p.id])}
+        className={`w-10 text-left font-mono text-xs truncate ${selectedIds.includes(p.id) ? 'text-white font-bold' : 'text-violet-300 hover:text-white'}`}
+        title={`Select ${p.name}`}
+      >
+        {p.name}
+      </button>
+      <input
+        type="range"
+        min={p.min}
+        max={p.max}
+        step={(p.max - p.min) / SLIDER_STEPS || 'any'}
+        value={p.value}
+        onChange={(e) => onUpdate(p.id, { value: parseFloat(e.target.value) })}
+        onPointerDown={onGestureStart}
+        onPointerUp={onGestureEnd}
+        className="w-36 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-violet-500"
+      />
+      <span className="w-14 text-right font-mono text-xs text-gray-300">{parseFloat(p.value.toFixed(3))}</span>
+    </div>
+  );
+
+  return (
+    <div className="absolute left-24 bottom-12 p-3 bg-gray-800/90 backdrop-blur border border-gray-700 rounded-xl shadow-lg flex flex-col gap-2 z-10">
+      <div className="flex items-center justify-between gap-4">
+        <span className="flex items-center gap-1 text-xs font-semibold text-gray-500 uppercase">
+          <SlidersHorizontal size={14} /> Parameters
+        </span>
+        <button
+          onClick={() => {
+            const parameter = buildParameter(nextParameterName(objects));
+            onAdd(parameter);
+            onSelect([parameter.id]);
+          }}
+          className="p-1 hover:bg-violet-600 bg-gray-700 rounded text-white transition-colors"
+          title="Add Parameter"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+      {parameters.map(renderSlider)}
+    </div>
+  );
+};
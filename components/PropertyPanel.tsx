@@ -2,88 +2,333 @@
 
 
 import React, { useState, useEffect } from 'react';
-import { GeoEntity, ObjectType, ConicType } from '../types';
-import { X } from 'lucide-react';
-import { evaluateMathExpression, generalToStandardConic } from '../utils/math';
+import { GeoEntity, ObjectType, ConicType, ConicFeature, CircleDefinition, AnimationSettings, AnimationMode, StrokeStyle } from '../types';
+import { X, Play, Pause, Link2, Eye, EyeOff } from 'lucide-react';
+import { generalToStandardConic, isLineAtInfinity, getConicFeatures, isDegenerateConicType, PROPER_CONIC_TYPES } from '../utils/math';
+import { buildConicFeatures, buildLocusConic } from '../utils/constructions';
+import { isAnimatable, defaultAnimation } from '../utils/animation';
+import { MEASURE_LABELS, formatMeasure } from '../utils/measurements';
+import { evaluateExpression, isVariableName } from '../utils/expression';
+import { evaluateBinding, isBindingExpression } from '../utils/parameters';
 
 interface PropertyPanelProps {
-  object: GeoEntity | null;
+  // The selection; several objects get the fields they share (color, visibility, style)
+  objects: GeoEntity[];
   onChange: (id: string, changes: Partial<GeoEntity>) => void;
+  // Changes several objects as one step
+  onChangeMany: (updates: Record<string, Partial<GeoEntity>>) => void;
+  onSelect: (ids: string[]) => void;
   onDelete: (id: string) => void;
+  // Adds a new object built from the selected one (e.g. the foci of a conic)
+  onAdd: (obj: GeoEntity) => void;
+  // Puts an intersection point and its siblings back on the solutions in their original order
+  onResetBranches: (id: string) => void;
+  // Brackets slider drags so they are undone as one step
+  onGestureStart: () => void;
+  onGestureEnd: () => void;
   onClose: () => void;
+  // Parameter values by name, available in every expression
+  variables: Record<string, number>;
 }
 
-// Helper for inputs that accept math expressions (e.g., "sqrt(3)")
+const COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899'];
+
+// Objects drawn with a stroke, which can be dashed or dotted
+const STROKED_TYPES = [ObjectType.LINE, ObjectType.SEGMENT, ObjectType.RAY, ObjectType.CONIC, ObjectType.CIRCLE, ObjectType.LOCUS];
+
+const STROKE_LABELS: Record<StrokeStyle, string> = {
+  [StrokeStyle.SOLID]: 'Solid',
+  [StrokeStyle.DASHED]: 'Dashed',
+  [StrokeStyle.DOTTED]: 'Dotted',
+};
+
+// Color, visibility and stroke style of one or more objects. A button is highlighted when all
+// targets share its value.
+const StyleFields = ({ targets, onApply }: { targets: GeoEntity[]; onApply: (ids: string[], changes: Partial<GeoEntity>) => void }) => {
+  const shared = <T,>(list: GeoEntity[], get: (o: GeoEntity) => T) =>
+    list.length > 0 && list.every(o => get(o) === get(list[0])) ? get(list[0]) : undefined;
+  const ids = targets.map(o => o.id);
+  const stroked = targets.filter(o => STROKED_TYPES.includes(o.type));
+  const color = shared(targets, o => o.color);
+  const visible = shared(targets, o => o.visible !== false);
+  const strokeStyle = shared(stroked, o => o.strokeStyle ?? StrokeStyle.SOLID);
+  const option = (active: boolean) =>
+    `flex items-center gap-1 px-2 py-1 rounded text-xs transition-colors ${active ? 'bg-blue-600 text-white' : 'bg-gray-900 text-gray-400 hover:bg-gray-700 hover:text-white'}`;
+
+  return (
+    <>
+      <div className="space-y-2">
+        <label className="text-xs font-semibold text-gray-500 uppercase">Color</label>
+        <div className="flex gap-2">
+          {COLORS.map((c) => (
+            <button
+              key={c}
+              onClick={() => onApply(ids, { color: c })}
+              className={`w-6 h-6 rounded-full border-2 ${color === c ? 'border-white' : 'border-transparent'}`}
+              style={{ backgroundColor: c }}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-semibold text-gray-500 uppercase">Visibility</label>
+        <div className="flex gap-2">
+          <button onClick={() => onApply(ids, { visible: undefined })} className={option(visible === true)}>
+            <Eye size={14} /> Shown
+          </button>
+          <button onClick={() => onApply(ids, { visible: false })} className={option(visible === false)}>
+            <EyeOff size={14} /> Hidden
+          </button>
+        </div>
+        {visible === false && <p className="text-xs text-gray-500">Hidden objects are not drawn but still define the objects built on them.</p>}
+      </div>
+
+      {stroked.length > 0 && (
+        <div className="space-y-2">
+          <label className="text-xs font-semibold text-gray-500 uppercase">Line Style</label>
+          <div className="flex gap-2">
+            {Object.values(StrokeStyle).map(style => (
+              <button
+                key={style}
+                onClick={() => onApply(stroked.map(o => o.id), { strokeStyle: style === StrokeStyle.SOLID ? undefined : style })}
+                className={option(strokeStyle === style)}
+              >
+                {STROKE_LABELS[style]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+// Props of a SmartInput whose field can be bound to an expression in the parameters
+interface BindingProps {
+  binding?: string;
+  // Why the binding currently has no value (e.g. its parameter was deleted)
+  bindingError?: string | null;
+  // Applies typed text as a binding or a plain value; returns the reason it was refused, if any
+  onBind?: (text: string) => string | null;
+}
+
+// Helper for inputs that accept math expressions (e.g., "sqrt(3)"), in which parameters can be
+// used by name. Text that does not evaluate stays in the field with the error below it; Escape
+// goes back to the current value. Bindable fields keep expressions in parameters live and show
+// them instead of the value.
 const SmartInput = ({ 
   value, 
   onChange, 
   disabled, 
-  label 
+  label,
+  variables,
+  binding,
+  bindingError,
+  onBind
 }: { 
   value: number; 
-  onChange: (v: number) => void; 
+  onChange?: (v: number) => void; 
   disabled?: boolean;
   label?: string;
-}) => {
-  const [text, setText] = useState(parseFloat(value.toFixed(4)).toString());
+  variables?: Record<string, number>;
+} & BindingProps) => {
+  const shown = binding ?? parseFloat(value.toFixed(4)).toString();
+  const [text, setText] = useState(shown);
   const [isEditing, setIsEditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    if (!isEditing) {
-      setText(parseFloat(value.toFixed(4)).toString());
+    if (!isEditing && !error) {
+      setText(shown);
     }
-  }, [value, isEditing]);
+  }, [shown, isEditing, error]);
 
   const commit = () => {
     setIsEditing(false);
-    const parsed = evaluateMathExpression(text);
-    if (parsed !== null && isFinite(parsed)) {
-      onChange(parsed);
-      setText(parseFloat(parsed.toFixed(4)).toString());
-    } else {
-      // Revert on invalid input
-      setText(parseFloat(value.toFixed(4)).toString());
+    if (onBind) {
+      setError(onBind(text));
+      return;
     }
+    const result = evaluateExpression(text, variables);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    onChange?.(result.value);
+    setText(parseFloat(result.value.toFixed(4)).toString());
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       (e.target as HTMLInputElement).blur();
+    } else if (e.key === 'Escape') {
+      setError(null);
+      setIsEditing(false);
+      setText(shown);
     }
   };
 
+  const shownError = error ?? (binding && !isEditing ? bindingError : null);
+
   return (
     <div>
-      {label && <label className="text-xs text-gray-500">{label}</label>}
+      {label && (
+        <label className="flex items-center gap-1 text-xs text-gray-500">
+          {label}
+          {binding && <span className="flex items-center gap-0.5 text-violet-400" title="Bound to parameters"><Link2 size={10} /> {parseFloat(value.toFixed(4))}</span>}
+        </label>
+      )}
       <input
         type="text"
         value={text}
-        onChange={(e) => setText(e.target.value)}
+        onChange={(e) => { setText(e.target.value); setError(null); }}
         onFocus={() => setIsEditing(true)}
         onBlur={commit}
         onKeyDown={handleKeyDown}
         disabled={disabled}
-        className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-white disabled:opacity-50 focus:border-blue-500 focus:outline-none"
+        title={shownError ?? undefined}
+        className={`w-full bg-gray-900 border rounded px-2 py-1 text-sm text-white disabled:opacity-50 focus:outline-none ${shownError ? 'border-red-500' : binding ? 'border-violet-500 font-mono' : 'border-gray-700 focus:border-blue-500'}`}
       />
+      {shownError && <p className="text-[10px] text-red-400 mt-0.5">{shownError}</p>}
     </div>
   );
 };
 
 // Helper to render coeff input
-const CoeffInput = ({ label, value, onChange }: { label: string, value: number, onChange: (v: number) => void }) => (
+const CoeffInput: React.FC<{ label: string, value: number, onChange: (v: number) => void, disabled?: boolean, variables: Record<string, number> }> = ({ label, value, onChange, disabled, variables }) => (
     <div className="flex items-center gap-2">
         <span className="text-gray-500 text-xs w-4 font-bold">{label}</span>
-        <SmartInput value={value} onChange={onChange} />
+        <SmartInput value={value} onChange={onChange} disabled={disabled} variables={variables} />
     </div>
 );
 
-export const PropertyPanel: React.FC<PropertyPanelProps> = ({ object, onChange, onDelete, onClose }) => {
-  if (!object) return null;
+// Play/pause and settings of a pivot line (angles shown in degrees) or a point on a line
+const AnimationControls: React.FC<{ settings: AnimationSettings; angular: boolean; onChange: (s: AnimationSettings) => void; variables: Record<string, number> }> = ({ settings, angular, onChange, variables }) => {
+  const scale = angular ? 180 / Math.PI : 1;
+  const unit = angular ? '°' : 'units';
+  const set = (changes: Partial<AnimationSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-gray-700">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-semibold text-gray-500 uppercase">Animation</label>
+        <button
+          onClick={() => set({ playing: !settings.playing })}
+          className={`flex items-center gap-1 py-1 px-2 rounded border text-xs transition-colors ${
+            settings.playing ? 'bg-blue-600 border-blue-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-300 hover:bg-gray-700'
+          }`}
+        >
+          {settings.playing ? <Pause size={14} /> : <Play size={14} />} {settings.playing ? 'Pause' : 'Play'}
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <SmartInput label={`Speed (${unit}/s)`} value={Math.abs(settings.speed) * scale} onChange={(v) => set({ speed: Math.abs(v) / scale })} variables={variables} />
+        <div>
+          <label className="text-xs text-gray-500">Direction</label>
+          <select
+            value={settings.direction}
+            onChange={(e) => set({ direction: e.target.value === '-1' ? -1 : 1 })}
+            className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-white"
+          >
+            {/* The y axis points down, so increasing angles turn clockwise on screen */}
+            <option value="1">{angular ? 'Clockwise' : 'Forward'}</option>
+            <option value="-1">{angular ? 'Counterclockwise' : 'Backward'}</option>
+          </select>
+        </div>
+        <SmartInput label={`From (${unit})`} value={settings.min * scale} onChange={(v) => set({ min: v / scale })} variables={variables} />
+        <SmartInput label={`To (${unit})`} value={settings.max * scale} onChange={(v) => set({ max: v / scale })} variables={variables} />
+      </div>
+      <div>
+        <label className="text-xs text-gray-500">At the end of the range</label>
+        <select
+          value={settings.mode}
+          onChange={(e) => set({ mode: e.target.value as AnimationMode })}
+          className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-white"
+        >
+          <option value={AnimationMode.LOOP}>Loop (start over)</option>
+          <option value={AnimationMode.BOUNCE}>Bounce (turn around)</option>
+        </select>
+      </div>
+      {settings.max <= settings.min && <p className="text-xs text-amber-400">The range is empty: "To" must be greater than "From".</p>}
+    </div>
+  );
+};
+
+export const PropertyPanel: React.FC<PropertyPanelProps> = ({ objects, onChange, onChangeMany, onSelect, onDelete, onAdd, onResetBranches, onGestureStart, onGestureEnd, onClose, variables }) => {
+  if (objects.length === 0) return null;
+
+  const applyStyle = (ids: string[], changes: Partial<GeoEntity>) => {
+    onChangeMany(Object.fromEntries(ids.map(id => [id, changes])));
+  };
+
+  if (objects.length > 1) {
+    return (
+      <div className="absolute right-4 top-4 bottom-4 w-80 bg-gray-800/95 backdrop-blur border-l border-gray-700 shadow-2xl flex flex-col rounded-xl overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700 bg-gray-900/50">
+          <h2 className="font-bold text-gray-100 text-lg">{objects.length} objects</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-6 overflow-y-auto flex-1">
+          <div className="space-y-2">
+            <label className="text-xs font-semibold text-gray-500 uppercase">Selection</label>
+            <div className="flex flex-wrap gap-1">
+              {objects.map(o => (
+                <button
+                  key={o.id}
+                  onClick={() => onSelect([o.id])}
+                  className={`px-2 py-0.5 rounded bg-gray-900 border border-gray-700 hover:border-blue-500 text-xs font-mono ${o.visible === false ? 'text-gray-500' : 'text-gray-200'}`}
+                  title={`Select only ${o.name}`}
+                >
+                  {o.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <StyleFields targets={objects} onApply={applyStyle} />
+        </div>
+
+        <div className="p-4 border-t border-gray-700 bg-gray-900/50">
+          <button
+            // One undo step for all of them
+            onClick={() => objects.forEach(o => onDelete(o.id))}
+            className="w-full py-2 px-4 bg-red-900/30 hover:bg-red-900/50 text-red-400 rounded border border-red-900/50 transition-colors text-sm font-medium"
+          >
+            Delete {objects.length} Objects
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const object = objects[0];
 
   const handleChange = (key: string, value: any) => {
     onChange(object.id, { [key]: value });
   };
 
+  // Input props for a bindable field: text that refers to a parameter is stored as the field's
+  // binding, any other text sets the value and removes the binding
+  const bind = (field: string): BindingProps => ({
+    binding: object.bindings?.[field],
+    bindingError: object.bindings?.[field] ? evaluateBinding(field, object.bindings[field], variables).error : null,
+    onBind: (text) => {
+      const result = evaluateBinding(field, text, variables);
+      if (result.error) return result.error;
+      const { [field]: _, ...bindings } = object.bindings ?? {};
+      if (isBindingExpression(text)) bindings[field] = text.trim();
+      onChange(object.id, { [field]: result.value, bindings: Object.keys(bindings).length ? bindings : undefined });
+      return null;
+    },
+  });
+
+  // Dependent and degenerate conics have no editable standard parameters
+  const standardLocked = object.type === ObjectType.CONIC && (!!object.dependencies || isDegenerateConicType(object.conicType));
+
   return (
     <div className="absolute right-4 top-4 bottom-4 w-80 bg-gray-800/95 backdrop-blur border-l border-gray-700 shadow-2xl flex flex-col rounded-xl overflow-hidden">
       <div className="flex items-center justify-between p-4 border-b border-gray-700 bg-gray-900/50">
@@ -105,44 +350,68 @@ export const PropertyPanel: React.FC<PropertyPanelProps> = ({ object, onChange,
           />
         </div>
 
-        <div className="space-y-2">
-          <label className="text-xs font-semibold text-gray-500 uppercase">Color</label>
-          <div className="flex gap-2">
-            {['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899'].map((c) => (
-              <button
-                key={c}
-                onClick={() => handleChange('color', c)}
-                className={`w-6 h-6 rounded-full border-2 ${object.color === c ? 'border-white' : 'border-transparent'}`}
-                style={{ backgroundColor: c }}
-              />
-            ))}
+        {/* Parameters are not drawn */}
+        {object.type !== ObjectType.PARAMETER && <StyleFields targets={[object]} onApply={applyStyle} />}
+
+        {/* Images are recomputed from their preimage, whatever their type */}
+        {object.transformImage && (
+          <div className="p-2 bg-indigo-900/20 border border-indigo-900/50 rounded">
+            <p className="text-xs text-indigo-300 italic">Image under a projective transformation.</p>
+            {object.hidden && <p className="text-xs text-indigo-400 mt-1">Undefined: the preimage is hidden, or the transformation is.</p>}
           </div>
-        </div>
+        )}
 
         {/* Point Properties */}
         {object.type === ObjectType.POINT && (
           <div className="space-y-4">
+             {object.w === 0 && (
+              <div className="p-2 bg-purple-900/20 border border-purple-900/50 rounded">
+                <p className="text-xs text-purple-300 italic">Point at infinity. X/Y give its direction.</p>
+              </div>
+             )}
              <div className="grid grid-cols-2 gap-2">
               <SmartInput 
-                label="X" 
+                label={object.w === 0 ? 'Direction X' : 'X'} 
                 value={object.x} 
-                onChange={(v) => handleChange('x', v)} 
                 disabled={!object.isFree} 
+                {...bind('x')}
               />
               <SmartInput 
-                label="Y" 
+                label={object.w === 0 ? 'Direction Y' : 'Y'} 
                 value={object.y} 
-                onChange={(v) => handleChange('y', v)} 
                 disabled={!object.isFree} 
+                {...bind('y')}
               />
             </div>
             {!object.isFree && (
               <div className="p-2 bg-amber-900/20 border border-amber-900/50 rounded">
                 <p className="text-xs text-amber-500 italic">This point is constrained.</p>
                 {object.onLineId && <p className="text-xs text-amber-400 mt-1">Bound to line.</p>}
-                {object.solutionIndex !== undefined && <p className="text-xs text-amber-400 mt-1">Intersection result.</p>}
+                {object.onConicId && <p className="text-xs text-amber-400 mt-1">Bound to conic.</p>}
+                {object.conicFeature === ConicFeature.FOCUS && <p className="text-xs text-amber-400 mt-1">Focus of a conic.</p>}
+                {object.conicFeature === ConicFeature.VERTEX && <p className="text-xs text-amber-400 mt-1">Vertex of a conic.</p>}
+                {object.solutionIndex !== undefined && !object.conicFeature && (
+                  <>
+                    <p className="text-xs text-amber-400 mt-1">Intersection result. It follows its branch as the inputs move.</p>
+                    <button
+                      onClick={() => onResetBranches(object.id)}
+                      className="w-full mt-2 py-1 px-2 bg-gray-900 hover:bg-gray-700 text-gray-300 rounded border border-gray-700 transition-colors text-xs"
+                    >
+                      Reset Branches
+                    </button>
+                  </>
+                )}
+                {object.harmonicConjugate && <p className="text-xs text-amber-400 mt-1">Harmonic conjugate of the third input with respect to the first two{object.hidden ? ' (inputs not collinear).' : '.'}</p>}
               </div>
             )}
+            {isAnimatable(object) && (
+              <AnimationControls
+                settings={object.animation ?? defaultAnimation(object)}
+                angular={false}
+                onChange={(settings) => handleChange('animation', settings)}
+                variables={variables}
+              />
+            )}
           </div>
         )}
 
@@ -164,15 +433,40 @@ export const PropertyPanel: React.FC<PropertyPanelProps> = ({ object, onChange,
                         step="0.1"
                         value={(object.angle * 180 / Math.PI) % 360}
                         onChange={(e) => handleChange('angle', parseFloat(e.target.value) * Math.PI / 180)}
-                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                        onPointerDown={onGestureStart}
+                        onPointerUp={onGestureEnd}
+                        disabled={!!object.bindings?.angle}
+                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-50"
                     />
+                    <SmartInput label="Angle (Rad)" value={object.angle} {...bind('angle')} />
                 </div>
             )}
 
+            {isAnimatable(object) && (
+              <AnimationControls
+                settings={object.animation ?? defaultAnimation(object)}
+                angular
+                onChange={(settings) => handleChange('animation', settings)}
+                variables={variables}
+              />
+            )}
+
             {object.p1Id && object.p2Id && (
                 <p className="text-xs text-blue-400 italic">Defined by 2 points.</p>
             )}
 
+            {object.conicFeature === ConicFeature.DIRECTRIX && (
+                <p className="text-xs text-blue-400 italic">Directrix of a conic.</p>
+            )}
+
+            {object.conicFeature === ConicFeature.AXIS && (
+                <p className="text-xs text-blue-400 italic">Axis of symmetry of a conic.</p>
+            )}
+
+            {isLineAtInfinity(object) && (
+                <p className="text-xs text-purple-300 italic">Line at infinity (drawn as the dashed viewport frame).</p>
+            )}
+
             {object.isFree && !object.p1Id && !object.pivotPointId && (
                  <p className="text-xs text-gray-500">Free Line (abstract).</p>
             )}
@@ -184,62 +478,254 @@ export const PropertyPanel: React.FC<PropertyPanelProps> = ({ object, onChange,
                     <CoeffInput label="A" value={object.a} onChange={v => {
                         handleChange('a', v);
                         // Clear dependencies to make it a free line defined by equation
-                        onChange(object.id, { a: v, isFree: true, p1Id: undefined, p2Id: undefined, pivotPointId: undefined, dependencies: undefined });
-                    }} />
+                        onChange(object.id, { a: v, isFree: true, p1Id: undefined, p2Id: undefined, pivotPointId: undefined, dependencies: undefined, conicFeature: undefined, solutionIndex: undefined, transformImage: undefined, bindings: undefined });
+                    }} variables={variables} />
                     <CoeffInput label="B" value={object.b} onChange={v => {
                         handleChange('b', v);
-                        onChange(object.id, { b: v, isFree: true, p1Id: undefined, p2Id: undefined, pivotPointId: undefined, dependencies: undefined });
-                    }} />
+                        onChange(object.id, { b: v, isFree: true, p1Id: undefined, p2Id: undefined, pivotPointId: undefined, dependencies: undefined, conicFeature: undefined, solutionIndex: undefined, transformImage: undefined, bindings: undefined });
+                    }} variables={variables} />
                     <CoeffInput label="C" value={object.c} onChange={v => {
                         handleChange('c', v);
-                        onChange(object.id, { c: v, isFree: true, p1Id: undefined, p2Id: undefined, pivotPointId: undefined, dependencies: undefined });
-                    }} />
+                        onChange(object.id, { c: v, isFree: true, p1Id: undefined, p2Id: undefined, pivotPointId: undefined, dependencies: undefined, conicFeature: undefined, solutionIndex: undefined, transformImage: undefined, bindings: undefined });
+                    }} variables={variables} />
                 </div>
             </div>
           </div>
         )}
 
+        {/* Segment & Ray Properties */}
+        {(object.type === ObjectType.SEGMENT || object.type === ObjectType.RAY) && (
+          <div className="space-y-2">
+            <p className="text-xs text-blue-400 italic">
+              {object.type === ObjectType.SEGMENT ? 'Segment between 2 points.' : 'Ray from its first point through the second.'}
+            </p>
+            {object.hidden ? (
+              <p className="text-xs text-amber-400">Undefined: the points coincide{object.type === ObjectType.SEGMENT ? ' or one is at infinity' : ', or the start is at infinity'}.</p>
+            ) : (
+              <>
+                {object.type === ObjectType.SEGMENT && (
+                  <div className="flex justify-between text-xs text-gray-400">
+                    <span>Length</span>
+                    <span className="font-mono text-white">{Math.hypot(object.end.x - object.start.x, object.end.y - object.start.y).toFixed(4)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between text-xs text-gray-400">
+                  <span>Line</span>
+                  <span className="font-mono text-white">{object.a.toFixed(3)}x + {object.b.toFixed(3)}y + {object.c.toFixed(3)} = 0</span>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Circle Properties */}
+        {object.type === ObjectType.CIRCLE && (
+          <div className="space-y-4">
+            <p className="text-xs text-blue-400 italic">
+              {{
+                [CircleDefinition.CENTER_POINT]: 'Circle with a center through a point.',
+                [CircleDefinition.CENTER_RADIUS]: 'Circle with a center and a radius.',
+                [CircleDefinition.THREE_POINTS]: 'Circle through 3 points.',
+              }[object.circleDefinition]}
+            </p>
+            {object.hidden && (
+              <p className="text-xs text-amber-400">
+                {object.circleDefinition === CircleDefinition.THREE_POINTS ? 'Undefined: the points are collinear.' : 'Undefined: the radius is zero or an input is missing.'}
+              </p>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+              <SmartInput label="Center X" value={object.cx} onChange={() => {}} disabled />
+              <SmartInput label="Center Y" value={object.cy} onChange={() => {}} disabled />
+              <SmartInput
+                label="Radius"
+                value={object.radius}
+                disabled={object.circleDefinition !== CircleDefinition.CENTER_RADIUS}
+                {...bind('radius')}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Projective Transformation Properties */}
+        {object.type === ObjectType.TRANSFORM && (
+          <div className="space-y-2">
+            <p className="text-xs text-blue-400 italic">Projective transformation taking 4 source points to 4 target points.</p>
+            {object.matrix ? (
+              <div className="p-3 bg-gray-900/50 rounded border border-gray-700 space-y-2">
+                <label className="text-xs font-semibold text-gray-400 block">Matrix (homogeneous coordinates)</label>
+                <div className="grid grid-cols-3 gap-x-2 gap-y-1 font-mono text-xs text-gray-300">
+                  {object.matrix.flat().map((v, i) => (
+                    <span key={i}>{parseFloat(v.toFixed(4))}</span>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <p className="text-xs text-amber-400">Undefined: three of the source or target points are collinear.</p>
+            )}
+            <p className="text-xs text-gray-500">Deleting it removes all of its images.</p>
+          </div>
+        )}
+
+        {/* Parameter Properties */}
+        {object.type === ObjectType.PARAMETER && (
+          <div className="space-y-4">
+            <p className="text-xs text-violet-300 italic">Number usable by name in any field. Fields of other objects bound to it follow its slider.</p>
+            {!isVariableName(object.name) && (
+              <p className="text-xs text-amber-400">The name is not usable in expressions: use letters, digits and _, not starting with a digit, and not a constant or function name.</p>
+            )}
+            <div className="grid grid-cols-3 gap-2">
+              <SmartInput label="Value" value={object.value} onChange={(v) => handleChange('value', v)} variables={variables} />
+              <SmartInput label="Min" value={object.min} onChange={(v) => { if (v < object.max) handleChange('min', v); }} variables={variables} />
+              <SmartInput label="Max" value={object.max} onChange={(v) => { if (v > object.min) handleChange('max', v); }} variables={variables} />
+            </div>
+          </div>
+        )}
+
+        {/* Measurement Properties */}
+        {object.type === ObjectType.MEASURE && (
+          <div className="space-y-2">
+            <label className="text-xs font-semibold text-gray-500 uppercase">{MEASURE_LABELS[object.measureType]}</label>
+            {object.hidden ? (
+              <p className="text-xs text-amber-400 italic">Undefined: an input is missing or at infinity.</p>
+            ) : (
+              <div className="text-2xl font-mono text-white">{formatMeasure(object)}</div>
+            )}
+            <p className="text-xs text-gray-500">Recomputed whenever its inputs change.</p>
+          </div>
+        )}
+
+        {/* Locus Properties */}
+        {object.type === ObjectType.LOCUS && (
+          <div className="space-y-4">
+            <div className="p-2 bg-cyan-900/20 border border-cyan-900/50 rounded">
+              <p className="text-xs text-cyan-300 italic">Locus traced while its driver runs through its range.</p>
+              {object.hidden && <p className="text-xs text-cyan-400 mt-1">Empty: the traced point does not exist for any position of the driver.</p>}
+            </div>
+
+            {object.conicFit && !object.hidden && (
+              <div className="p-3 bg-gray-900/50 rounded border border-gray-700 space-y-2">
+                <label className="text-xs font-semibold text-gray-400 block">Fitted Conic</label>
+                <div className="text-[10px] text-gray-500 font-mono">Ax² + Bxy + Cy² + Dx + Ey + F = 0</div>
+                <div className="grid grid-cols-3 gap-x-2 gap-y-1 font-mono text-xs text-gray-300">
+                  {(['A', 'B', 'C', 'D', 'E', 'F'] as const).map(key => (
+                    <span key={key}><span className="text-gray-500 font-bold">{key}</span> {parseFloat(object.conicFit![key].toFixed(4))}</span>
+                  ))}
+                </div>
+                <button
+                  onClick={() => { const conic = buildLocusConic(object); if (conic) onAdd(conic); }}
+                  className="w-full py-1 px-2 bg-gray-900 hover:bg-gray-700 text-gray-300 rounded border border-gray-700 transition-colors text-xs"
+                >
+                  Add as Conic
+                </button>
+                <p className="text-[10px] text-gray-500">The added conic is a free copy of the current fit.</p>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Conic Properties */}
         {object.type === ObjectType.CONIC && (
           <div className="space-y-4">
+             {/* Dependent conics are recomputed from their inputs, so their parameters are read-only */}
+             {object.dependencies?.length === 5 && (
+              <div className="p-2 bg-amber-900/20 border border-amber-900/50 rounded">
+                <p className="text-xs text-amber-500 italic">Conic through 5 points.</p>
+                {object.hidden && <p className="text-xs text-amber-400 mt-1">Undetermined: four of the points are collinear (or two coincide).</p>}
+              </div>
+             )}
+
+             {isDegenerateConicType(object.conicType) && !object.hidden && (
+              <div className="p-2 bg-purple-900/20 border border-purple-900/50 rounded">
+                <p className="text-xs text-purple-300 italic">
+                  {object.conicType === ConicType.EMPTY
+                    ? 'No real points.'
+                    : 'Degenerate conic, defined by its general equation.'}
+                </p>
+              </div>
+             )}
+
              <div>
               <label className="text-xs text-gray-500">Type</label>
               <select
                 value={object.conicType}
-                onChange={(e) => handleChange('conicType', e.target.value)}
-                className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-white mt-1"
+                onChange={(e) => {
+                    // Leaving a degenerate kind: start from a unit conic at the old center
+                    if (isDegenerateConicType(object.conicType)) {
+                        onChange(object.id, { conicType: e.target.value as ConicType, a: object.a || 1, b: object.b || 1 });
+                    } else {
+                        handleChange('conicType', e.target.value);
+                    }
+                }}
+                disabled={!!object.dependencies}
+                className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-white mt-1 disabled:opacity-50"
               >
-                {Object.values(ConicType).map(t => (
+                {PROPER_CONIC_TYPES.map(t => (
                   <option key={t} value={t}>{t}</option>
                 ))}
+                {isDegenerateConicType(object.conicType) && (
+                  <option value={object.conicType} disabled>{object.conicType}</option>
+                )}
               </select>
             </div>
 
             <div className="grid grid-cols-2 gap-2">
-               <SmartInput label="Center X" value={object.cx} onChange={(v) => handleChange('cx', v)} />
-               <SmartInput label="Center Y" value={object.cy} onChange={(v) => handleChange('cy', v)} />
+               <SmartInput label={object.conicType === 'PARABOLA' ? 'Vertex X' : 'Center X'} value={object.cx} disabled={standardLocked} {...bind('cx')} />
+               <SmartInput label={object.conicType === 'PARABOLA' ? 'Vertex Y' : 'Center Y'} value={object.cy} disabled={standardLocked} {...bind('cy')} />
                
                <SmartInput 
-                 label={object.conicType === 'PARABOLA' ? 'Scale (a)' : 'Semi-Major (a)'} 
+                 label={object.conicType === 'PARABOLA' ? 'Focal Length (a)' : 'Semi-Major (a)'} 
                  value={object.a} 
-                 onChange={(v) => handleChange('a', v)} 
+                 disabled={standardLocked}
+                 {...bind('a')}
                />
                
                {object.conicType !== 'PARABOLA' && (
                 <SmartInput 
                   label="Semi-Minor (b)" 
                   value={object.b} 
-                  onChange={(v) => handleChange('b', v)} 
+                  disabled={standardLocked}
+                  {...bind('b')}
                 />
                )}
                
                <SmartInput 
                   label="Rotation (Rad)" 
                   value={object.rotation} 
-                  onChange={(v) => handleChange('rotation', v)} 
+                  disabled={standardLocked}
+                  {...bind('rotation')}
                />
             </div>
             
+            {!object.hidden && !isDegenerateConicType(object.conicType) && (
+              <div className="flex justify-between text-xs text-gray-400">
+                <span>Eccentricity</span>
+                <span className="font-mono text-white">{getConicFeatures(object).eccentricity.toFixed(4)}</span>
+              </div>
+            )}
+
+            {/* Derived features stay attached to the conic as it changes */}
+            {!isDegenerateConicType(object.conicType) && (
+              <div className="space-y-2">
+                <label className="text-xs font-semibold text-gray-500 uppercase">Construct</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {[
+                    { feature: ConicFeature.FOCUS, label: 'Foci' },
+                    { feature: ConicFeature.VERTEX, label: 'Vertices' },
+                    { feature: ConicFeature.DIRECTRIX, label: 'Directrices' },
+                    { feature: ConicFeature.AXIS, label: 'Axes' },
+                  ].map(({ feature, label }) => (
+                    <button
+                      key={feature}
+                      onClick={() => buildConicFeatures(object, feature).forEach(onAdd)}
+                      className="py-1 px-2 bg-gray-900 hover:bg-gray-700 text-gray-300 rounded border border-gray-700 transition-colors text-xs"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* General Equation for Conics */}
             <div className="mt-4 p-3 bg-gray-900/50 rounded border border-gray-700 space-y-2">
                 <label className="text-xs font-semibold text-gray-400 block mb-1">General Equation</label>
@@ -250,11 +736,14 @@ export const PropertyPanel: React.FC<PropertyPanelProps> = ({ object, onChange,
                             key={key} 
                             label={key} 
                             value={object.coeffs[key as keyof typeof object.coeffs]} 
+                            disabled={!!object.dependencies}
+                            variables={variables}
                             onChange={(val) => {
                                 const newCoeffs = { ...object.coeffs, [key]: val };
                                 const std = generalToStandardConic(newCoeffs);
-                                // Update both coefficients AND standard parameters
-                                onChange(object.id, { coeffs: newCoeffs, ...std });
+                                // Update both coefficients AND standard parameters; the equation
+                                // replaces any bindings of the standard parameters
+                                onChange(object.id, { coeffs: newCoeffs, ...std, bindings: undefined });
                             }} 
                          />
                      ))}
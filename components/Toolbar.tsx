@@ -1,7 +1,8 @@
 
 import React from 'react';
-import { MousePointer2, Circle, Minus, Diamond, PenTool, Triangle, XCircle, HelpCircle, Eraser, Slash } from 'lucide-react';
-import { ToolType } from '../types';
+import { MousePointer2, Circle, Minus, Diamond, PenTool, Triangle, XCircle, HelpCircle, Eraser, Slash, Undo2, Redo2, Save, FolderOpen, Pentagon, Crosshair, ImageDown, Spline, Ruler, Ratio, GitCommitHorizontal, MoveUpRight, Radius, Rotate3d, WandSparkles, Puzzle, FileUp, FileDown } from 'lucide-react';
+import { ToolType, MacroTool, SnapSettings } from '../types';
+import { describeMacroInputs } from '../utils/macros';
 
 interface ToolbarProps {
   currentTool: ToolType;
@@ -9,21 +10,52 @@ interface ToolbarProps {
   onOpenHelp: () => void;
   eraserSize: number;
   setEraserSize: (s: number) => void;
+  snapSettings: SnapSettings;
+  setSnapSettings: (s: SnapSettings) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onSave: () => void;
+  onOpen: () => void;
+  onExport: () => void;
+  macros: MacroTool[];
+  // Highlighted custom tool (null unless the MACRO tool is active)
+  activeMacroId: string | null;
+  onSelectMacro: (id: string) => void;
+  onImportTools: () => void;
+  onExportTools: () => void;
 }
 
-export const Toolbar: React.FC<ToolbarProps> = ({ currentTool, setTool, onOpenHelp, eraserSize, setEraserSize }) => {
+export const Toolbar: React.FC<ToolbarProps> = ({ currentTool, setTool, onOpenHelp, eraserSize, setEraserSize, snapSettings, setSnapSettings, onUndo, onRedo, canUndo, canRedo, onSave, onOpen, onExport, macros, activeMacroId, onSelectMacro, onImportTools, onExportTools }) => {
   const tools = [
     { id: ToolType.SELECT, icon: MousePointer2, label: 'Select', shortcut: 'S' },
     { id: ToolType.POINT, icon: Circle, label: 'Point', shortcut: 'P' },
     { id: ToolType.LINE, icon: Minus, label: 'Line', shortcut: 'L' },
+    { id: ToolType.SEGMENT, icon: GitCommitHorizontal, label: 'Segment', shortcut: 'G' },
+    { id: ToolType.RAY, icon: MoveUpRight, label: 'Ray', shortcut: 'Y' },
+    { id: ToolType.CIRCLE, icon: Radius, label: 'Circle', shortcut: 'R' },
     { id: ToolType.CONIC, icon: Diamond, label: 'Conic', shortcut: 'C' },
+    { id: ToolType.FIVE_POINT_CONIC, icon: Pentagon, label: 'Conic through 5 Points', shortcut: '5' },
     { id: ToolType.INTERSECT, icon: XCircle, label: 'Intersect', shortcut: 'I' },
     { id: ToolType.TANGENT, icon: Slash, label: 'Tangent', shortcut: 'A' },
     { id: ToolType.POLAR, icon: PenTool, label: 'Polar Line', shortcut: 'O' },
+    { id: ToolType.POLE, icon: Crosshair, label: 'Pole of Line', shortcut: 'F' },
+    { id: ToolType.HARMONIC, icon: Ratio, label: 'Harmonic Conjugate', shortcut: 'H' },
+    { id: ToolType.TRANSFORM, icon: Rotate3d, label: 'Projective Transform', shortcut: 'J' },
     { id: ToolType.TRIANGLE, icon: Triangle, label: 'Self-Polar Triangle', shortcut: 'T' },
+    { id: ToolType.LOCUS, icon: Spline, label: 'Locus', shortcut: 'U' },
+    { id: ToolType.MEASURE, icon: Ruler, label: 'Measure', shortcut: 'M' },
     { id: ToolType.ERASER, icon: Eraser, label: 'Eraser', shortcut: 'E' },
   ];
 
+  const snapOptions: { key: keyof SnapSettings; label: string }[] = [
+    { key: 'grid', label: 'Grid' },
+    { key: 'points', label: 'Points' },
+    { key: 'objects', label: 'Lines & Conics' },
+    { key: 'intersections', label: 'Intersections' },
+  ];
+
   const renderLabel = (label: string, shortcut: string) => {
     const idx = label.toLowerCase().indexOf(shortcut.toLowerCase());
     if (idx === -1) return <span>{label}</span>;
@@ -60,6 +92,82 @@ export const Toolbar: React.FC<ToolbarProps> = ({ currentTool, setTool, onOpenHe
         ))}
       </div>
 
+      {/* Custom Tools */}
+      <div className="flex flex-col gap-2 bg-gray-800/90 backdrop-blur p-2 rounded-xl border border-gray-700 shadow-xl">
+        <button
+          onClick={() => setTool(ToolType.DEFINE_MACRO)}
+          className={`p-3 rounded-lg transition-all relative group ${
+            currentTool === ToolType.DEFINE_MACRO
+              ? 'bg-blue-600 text-white shadow-blue-500/30 shadow-lg'
+              : 'text-gray-400 hover:bg-gray-700 hover:text-white'
+          }`}
+          title="Define Tool"
+        >
+          <WandSparkles size={24} strokeWidth={2} />
+          <span className="absolute left-full ml-2 top-1/2 -translate-y-1/2 px-2 py-1 bg-gray-900 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none z-20 border border-gray-700">
+            Define Tool <span className="text-gray-500">from the construction</span>
+          </span>
+        </button>
+        {macros.map((macro) => (
+          <button
+            key={macro.id}
+            onClick={() => onSelectMacro(macro.id)}
+            className={`p-3 rounded-lg transition-all relative group ${
+              activeMacroId === macro.id
+                ? 'bg-blue-600 text-white shadow-blue-500/30 shadow-lg'
+                : 'text-gray-400 hover:bg-gray-700 hover:text-white'
+            }`}
+            title={`${macro.name} (${describeMacroInputs(macro)})`}
+          >
+            <Puzzle size={24} strokeWidth={2} />
+            <span className="absolute right-1 bottom-0.5 text-[10px] font-bold font-mono leading-none">{macro.name.slice(0, 2)}</span>
+            <span className="absolute left-full ml-2 top-1/2 -translate-y-1/2 px-2 py-1 bg-gray-900 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none z-20 border border-gray-700">
+              {macro.name} <span className="text-gray-500">{describeMacroInputs(macro)}</span>
+            </span>
+          </button>
+        ))}
+        <div className="flex gap-1">
+          {[
+            { icon: FileUp, label: 'Import Tools', onClick: onImportTools, enabled: true },
+            { icon: FileDown, label: 'Export Tools', onClick: onExportTools, enabled: macros.length > 0 },
+          ].map((item) => (
+            <button
+              key={item.label}
+              onClick={item.onClick}
+              disabled={!item.enabled}
+              className="p-1.5 rounded-lg transition-all text-gray-400 hover:bg-gray-700 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400"
+              title={item.label}
+            >
+              <item.icon size={18} strokeWidth={2} />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* History & File */}
+      <div className="flex flex-col gap-2 bg-gray-800/90 backdrop-blur p-2 rounded-xl border border-gray-700 shadow-xl">
+        {[
+          { icon: Undo2, label: 'Undo', shortcut: 'Ctrl+Z', onClick: onUndo, enabled: canUndo },
+          { icon: Redo2, label: 'Redo', shortcut: 'Ctrl+Shift+Z', onClick: onRedo, enabled: canRedo },
+          { icon: Save, label: 'Save', shortcut: 'Ctrl+S', onClick: onSave, enabled: true },
+          { icon: FolderOpen, label: 'Open', shortcut: 'Ctrl+O', onClick: onOpen, enabled: true },
+          { icon: ImageDown, label: 'Export Figure', shortcut: 'Ctrl+E', onClick: onExport, enabled: true },
+        ].map((item) => (
+          <button
+            key={item.label}
+            onClick={item.onClick}
+            disabled={!item.enabled}
+            className="p-3 rounded-lg transition-all relative group text-gray-400 hover:bg-gray-700 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400"
+            title={`${item.label} (${item.shortcut})`}
+          >
+            <item.icon size={24} strokeWidth={2} />
+            <span className="absolute left-full ml-2 top-1/2 -translate-y-1/2 px-2 py-1 bg-gray-900 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none z-20 border border-gray-700">
+              {item.label} <span className="text-gray-500">{item.shortcut}</span>
+            </span>
+          </button>
+        ))}
+      </div>
+
       {/* Eraser Settings */}
       {currentTool === ToolType.ERASER && (
         <div className="bg-gray-800/90 backdrop-blur p-3 rounded-xl border border-gray-700 shadow-xl flex flex-col gap-2 animate-in fade-in slide-in-from-left-4">
@@ -78,6 +186,25 @@ export const Toolbar: React.FC<ToolbarProps> = ({ currentTool, setTool, onOpenHe
         </div>
       )}
 
+      {/* Snap Settings */}
+      {currentTool === ToolType.POINT && (
+        <div className="bg-gray-800/90 backdrop-blur p-3 rounded-xl border border-gray-700 shadow-xl flex flex-col gap-1.5 animate-in fade-in slide-in-from-left-4">
+            <span className="text-xs text-gray-400 font-medium">Snap to</span>
+            {snapOptions.map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={snapSettings[key]}
+                        onChange={(e) => setSnapSettings({ ...snapSettings, [key]: e.target.checked })}
+                        className="accent-blue-500"
+                    />
+                    {label}
+                </label>
+            ))}
+            <span className="text-[10px] text-gray-500">Hold Alt to place freely</span>
+        </div>
+      )}
+
       {/* Help Button */}
       <button
         onClick={onOpenHelp}
@@ -3,24 +3,118 @@ export enum ToolType {
   SELECT = 'SELECT',
   POINT = 'POINT',
   LINE = 'LINE',
+  SEGMENT = 'SEGMENT',
+  RAY = 'RAY',
+  CIRCLE = 'CIRCLE',
   CONIC = 'CONIC',
+  FIVE_POINT_CONIC = 'FIVE_POINT_CONIC',
   TANGENT = 'TANGENT',
   POLAR = 'POLAR',
+  POLE = 'POLE',
+  HARMONIC = 'HARMONIC',
+  TRANSFORM = 'TRANSFORM',
   TRIANGLE = 'TRIANGLE',
+  LOCUS = 'LOCUS',
+  MEASURE = 'MEASURE',
   INTERSECT = 'INTERSECT',
   ERASER = 'ERASER',
+  // Custom tools (see `MacroTool`): record one from the construction, or apply the active one
+  DEFINE_MACRO = 'DEFINE_MACRO',
+  MACRO = 'MACRO',
 }
 
 export enum ObjectType {
   POINT = 'POINT',
   LINE = 'LINE',
+  SEGMENT = 'SEGMENT',
+  RAY = 'RAY',
   CONIC = 'CONIC',
+  CIRCLE = 'CIRCLE',
+  LOCUS = 'LOCUS',
+  MEASURE = 'MEASURE',
+  TRANSFORM = 'TRANSFORM',
+  PARAMETER = 'PARAMETER',
 }
 
 export enum ConicType {
   ELLIPSE = 'ELLIPSE',
   HYPERBOLA = 'HYPERBOLA',
   PARABOLA = 'PARABOLA',
+  // Degenerate and imaginary conics (defined by their coefficients only)
+  LINE_PAIR = 'LINE_PAIR',
+  PARALLEL_LINES = 'PARALLEL_LINES',
+  DOUBLE_LINE = 'DOUBLE_LINE',
+  POINT = 'POINT',
+  EMPTY = 'EMPTY',
+}
+
+// Derived features of a conic. An object carrying one has `dependencies: [conicId]`
+// and uses `solutionIndex` to pick among several (e.g. the two foci of an ellipse).
+export enum ConicFeature {
+  FOCUS = 'FOCUS',
+  VERTEX = 'VERTEX',
+  DIRECTRIX = 'DIRECTRIX',
+  AXIS = 'AXIS',
+}
+
+// How a circle is defined; its `dependencies` are the points in this order
+export enum CircleDefinition {
+  CENTER_POINT = 'CENTER_POINT', // [center, point on the circle]
+  CENTER_RADIUS = 'CENTER_RADIUS', // [center], with `radius` given
+  THREE_POINTS = 'THREE_POINTS', // [point, point, point] (circumcircle)
+}
+
+// What a measurement object measures; its `dependencies` are the inputs in this order
+export enum MeasureType {
+  DISTANCE = 'DISTANCE', // [point, point]
+  POINT_LINE_DISTANCE = 'POINT_LINE_DISTANCE', // [point, line]
+  ANGLE = 'ANGLE', // [line, line]
+  AREA = 'AREA', // [point, point, point] (triangle)
+  SLOPE = 'SLOPE', // [line]
+  CROSS_RATIO = 'CROSS_RATIO', // [point, point, point, point] (collinear)
+  CROSS_RATIO_LINES = 'CROSS_RATIO_LINES', // [line, line, line, line] (concurrent)
+}
+
+// How lines and curves are stroked (points and labels are not affected)
+export enum StrokeStyle {
+  SOLID = 'SOLID',
+  DASHED = 'DASHED',
+  DOTTED = 'DOTTED',
+}
+
+// What the Point tool snapped to (see `utils/snapping.ts`)
+export enum SnapKind {
+  GRID = 'GRID',
+  POINT = 'POINT',
+  OBJECT = 'OBJECT',
+  INTERSECTION = 'INTERSECTION',
+}
+
+// Which targets the Point tool snaps to; Alt bypasses all of them
+export interface SnapSettings {
+  grid: boolean;
+  points: boolean;
+  // Lines and conics, giving a point constrained to them
+  objects: boolean;
+  intersections: boolean;
+}
+
+// What an animation does at the end of its range: start over, or turn around
+export enum AnimationMode {
+  LOOP = 'LOOP',
+  BOUNCE = 'BOUNCE',
+}
+
+// Animation of a pivot line's `angle` (radians) or of a constrained point's position along its
+// line (signed distance in units, see `getLineParameter`)
+export interface AnimationSettings {
+  playing: boolean;
+  // Parameter change per second (radians or units)
+  speed: number;
+  direction: 1 | -1;
+  min: number;
+  max: number;
+  mode: AnimationMode;
 }
 
 export interface Coordinates {
@@ -28,24 +122,57 @@ export interface Coordinates {
   y: number;
 }
 
+// Canvas view (d3 zoom transform): screen = world * k + (x, y)
+export interface ViewTransform {
+  x: number;
+  y: number;
+  k: number;
+}
+
 export interface GeoObject {
   id: string;
   type: ObjectType;
   name: string;
   color: string;
+  // Set by the solver while the object does not exist (e.g. the intersection of a line that misses
+  // a conic). Hidden objects are not drawn.
   hidden?: boolean;
+  // False when the user chose not to show the object; it still takes part in constructions
+  visible?: boolean;
+  strokeStyle?: StrokeStyle;
   dependencies?: string[]; // IDs of objects this depends on
+  // Image of another object under a projective transformation: `dependencies` is
+  // [transformId, preimageId] and the object is recomputed from the preimage alone
+  transformImage?: boolean;
+  // Expressions in the parameters that drive numeric fields, e.g. { a: '2 + t' } on a conic. The
+  // solver evaluates them before anything else; see `bindableFields` for what can be bound.
+  bindings?: Record<string, string>;
 }
 
 export interface GeoPoint extends GeoObject {
   type: ObjectType.POINT;
   x: number;
   y: number;
+  // Homogeneous weight: points at infinity have w = 0 and store their (unit) direction in x, y.
+  // Finite points leave it undefined (w = 1).
+  w?: number;
   isFree: boolean;
   // If constrained to a line
   onLineId?: string;
-  // If it is one of multiple intersection solutions (e.g. Line-Conic has 2 points)
+  // If constrained to a conic or circle (it stays at the closest point to its last position)
+  onConicId?: string;
+  // If it is one of multiple intersection solutions (e.g. Line-Conic has 2 points): the solution
+  // it starts on, and takes again when its branch tracking is reset
   solutionIndex?: number; 
+  // Set once an intersection point has been placed: from then on it follows its branch, taking
+  // the solution closest to its last position (see `assignBranches` in the solver)
+  branchTracked?: boolean;
+  // Focus or vertex of the conic in `dependencies`
+  conicFeature?: ConicFeature;
+  // Harmonic conjugate of the third point in `dependencies` with respect to the first two
+  harmonicConjugate?: boolean;
+  // Motion along `onLineId`
+  animation?: AnimationSettings;
 }
 
 export interface GeoLine extends GeoObject {
@@ -61,6 +188,33 @@ export interface GeoLine extends GeoObject {
   // Defined by passing through a point with angle (if free but pivot)
   pivotPointId?: string;
   angle?: number;
+  // Directrix or axis of symmetry of the conic in `dependencies` (`solutionIndex` picks which one)
+  conicFeature?: ConicFeature;
+  solutionIndex?: number;
+  // Rotation around `pivotPointId`
+  animation?: AnimationSettings;
+}
+
+// The part of the line through `p1Id` and `p2Id` between the two points (segment), or starting
+// at p1 and passing through p2 (ray). `a, b, c` is the whole line, so line constructions
+// (intersections, poles, measurements) work on it; `start` and `end` are the solved positions of
+// the points. A ray whose p2 is at infinity gets an `end` one unit along its direction.
+interface GeoBoundedLine extends GeoObject {
+  a: number;
+  b: number;
+  c: number;
+  p1Id: string;
+  p2Id: string;
+  start: Coordinates;
+  end: Coordinates;
+}
+
+export interface GeoSegment extends GeoBoundedLine {
+  type: ObjectType.SEGMENT;
+}
+
+export interface GeoRay extends GeoBoundedLine {
+  type: ObjectType.RAY;
 }
 
 export interface GeoConic extends GeoObject {
@@ -74,8 +228,77 @@ export interface GeoConic extends GeoObject {
   rotation: number; // radians
   
   // General Equation Coefficients: Ax^2 + Bxy + Cy^2 + Dx + Ey + F = 0
-  // These are derived from the standard params usually, but needed for polar calculation
+  // These are derived from the standard params usually, but needed for polar calculation.
+  // A conic whose `dependencies` are five points is defined by them instead: its coefficients
+  // are computed first and the standard params derived from them (all zero = undetermined).
   coeffs: { A: number; B: number; C: number; D: number; E: number; F: number };
 }
 
-export type GeoEntity = GeoPoint | GeoLine | GeoConic;
\ No newline at end of file
+// A circle through its defining points. Its general coefficients are kept up to date like a
+// conic's, so it takes part in polar, tangent and intersection constructions.
+export interface GeoCircle extends GeoObject {
+  type: ObjectType.CIRCLE;
+  circleDefinition: CircleDefinition;
+  cx: number;
+  cy: number;
+  // Given for CENTER_RADIUS, computed otherwise
+  radius: number;
+  coeffs: { A: number; B: number; C: number; D: number; E: number; F: number };
+}
+
+// Curve traced by a dependent point while its driver runs through its range.
+// `dependencies` is [driverId, tracedId]: the driver is a point with `onLineId` (moved along the
+// whole line) or a line with `pivotPointId` (turned through 180 degrees).
+export interface GeoLocus extends GeoObject {
+  type: ObjectType.LOCUS;
+  // Computed polylines in world coordinates, split where the traced point jumps or does not exist
+  samples: Coordinates[][];
+  // General coefficients of the conic through all samples, when the locus is (part of) a conic
+  conicFit?: { A: number; B: number; C: number; D: number; E: number; F: number };
+}
+
+// A live number on the sketch, recomputed by the solver
+export interface GeoMeasure extends GeoObject {
+  type: ObjectType.MEASURE;
+  measureType: MeasureType;
+  // Distances and areas in units, angles in degrees (0 to 90); null for the slope of a vertical line
+  // and for an infinite cross-ratio
+  value: number | null;
+  // Label position and the annotation drawn with it (segment, triangle or arc), in world coordinates
+  x: number;
+  y: number;
+  shape: Coordinates[];
+}
+
+// Projective transformation (homography) mapping four source points onto four target points.
+// `dependencies` is [s1, s2, s3, s4, t1, t2, t3, t4]; the objects it maps are its images.
+export interface GeoTransform extends GeoObject {
+  type: ObjectType.TRANSFORM;
+  // 3x3 matrix acting on homogeneous coordinates (x' = H x); null when three source or three
+  // target points are collinear
+  matrix: number[][] | null;
+}
+
+// A named number shown as a slider. Expressions refer to it by its `name`.
+export interface GeoParameter extends GeoObject {
+  type: ObjectType.PARAMETER;
+  value: number;
+  // Slider range
+  min: number;
+  max: number;
+}
+
+export type GeoEntity = GeoPoint | GeoLine | GeoSegment | GeoRay | GeoConic | GeoCircle | GeoLocus | GeoMeasure | GeoTransform | GeoParameter;
+// A user-defined tool recorded from a construction. Applying it to new inputs copies `objects`
+// with fresh ids, replacing references to `inputIds` with the picked inputs (`utils/macros.ts`).
+export interface MacroTool {
+  id: string;
+  name: string;
+  // Kind of each input (POINT, LINE or CONIC, see `objectKind`), in the order they are picked
+  inputTypes: ObjectType[];
+  // Ids of the inputs in the recorded construction
+  inputIds: string[];
+  // Everything between the inputs and the outputs, in dependency order
+  objects: GeoEntity[];
+  outputIds: string[];
+}
@@ -0,0 +1,65 @@
+import { GeoEntity, GeoPoint, GeoLine, ObjectType, AnimationSettings, AnimationMode } from '../types';
+import { getLineParameter, pointAtLineParameter } from './math';
+import { isLinear } from './objects';
+
+// --- Animation ---
+// Pivot lines turn around their pivot and constrained points slide along their line. One frame
+// only moves the animated parameters; `solveGeometry` then updates everything that depends on them.
+
+// Pivot lines (unless their angle is bound to parameters) and points on lines
+export const isAnimatable = (obj: GeoEntity): obj is GeoPoint | GeoLine =>
+  (obj.type === ObjectType.POINT && !!obj.onLineId) ||
+  (obj.type === ObjectType.LINE && !!obj.pivotPointId && typeof obj.angle === 'number' && !obj.bindings?.angle);
+
+export const isAnimating = (obj: GeoEntity) => isAnimatable(obj) && !!obj.animation?.playing;
+
+// A full turn for lines, ten units around the foot of the perpendicular from the origin for points
+export const defaultAnimation = (obj: GeoPoint | GeoLine): AnimationSettings =>
+  obj.type === ObjectType.LINE
+    ? { playing: false, speed: Math.PI / 4, direction: 1, min: 0, max: 2 * Math.PI, mode: AnimationMode.LOOP }
+    : { playing: false, speed: 1, direction: 1, min: -5, max: 5, mode: AnimationMode.BOUNCE };
+
+// Advances `value` by speed * dt inside [min, max], wrapping around (LOOP) or turning around at the
+// ends (BOUNCE). Returns the new value and the direction to continue in.
+export const stepAnimation = (value: number, settings: AnimationSettings, dt: number) => {
+  const { min, max, mode, direction } = settings;
+  const range = max - min;
+  if (!(range > 0)) return { value: min, direction };
+
+  const offset = Math.min(range, Math.max(0, value - min));
+  const step = Math.abs(settings.speed) * dt;
+  if (mode === AnimationMode.LOOP) {
+    const next = (((offset + direction * step) % range) + range) % range;
+    return { value: min + next, direction };
+  }
+
+  // Bouncing is a loop around a circle of length 2 * range: forward on the first half, back on the second
+  const period = 2 * range;
+  const u = ((direction > 0 ? offset : period - offset) + step) % period;
+  return u <= range
+    ? { value: min + u, direction: 1 as const }
+    : { value: min + period - u, direction: -1 as const };
+};
+
+// One animation frame: the playing objects with their parameters advanced by `dt` seconds.
+// Returns the input array itself when nothing is playing.
+export const advanceAnimations = (objects: GeoEntity[], dt: number): GeoEntity[] => {
+  if (!objects.some(isAnimating)) return objects;
+  const byId = new Map(objects.map(o => [o.id, o]));
+
+  return objects.map(obj => {
+    if (!isAnimatable(obj) || !obj.animation?.playing) return obj;
+    const settings = obj.animation;
+
+    if (obj.type === ObjectType.LINE) {
+      const { value, direction } = stepAnimation(obj.angle!, settings, dt);
+      return { ...obj, angle: value, animation: { ...settings, direction } };
+    }
+
+    const line = byId.get(obj.onLineId!);
+    // On a segment or ray the solver keeps the point inside the drawn part
+    if (!isLinear(line) || line.hidden) return obj;
+    const { value, direction } = stepAnimation(getLineParameter(line, obj), settings, dt);
+    return { ...obj, ...pointAtLineParameter(line, value), animation: { ...settings, direction } };
+  });
+};
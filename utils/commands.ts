@@ -0,0 +1,533 @@
+import { GeoEntity, GeoPoint, GeoConic, ObjectType, ConicType, ConicFeature, CircleDefinition, MeasureType } from '../types';
+import { harmonicConjugate, homographyFromPoints, isDegenerateConicType } from './math';
+import { isLinear, isConicLike, objectKind, LinearEntity, ConicEntity } from './objects';
+import { MEASURE_INPUTS } from './measurements';
+import { evaluateExpression, isVariableName, FUNCTIONS } from './expression';
+import { isParameter, parameterScope, isBindingExpression } from './parameters';
+import { buildDependencyGraph, collectDependents } from './graph';
+import { isLocusDriver } from './solver';
+import {
+  buildPoint, buildPointOnLine, buildPointOnConic, buildConic, buildFivePointConic, buildLineThroughPoints, buildPivotLine, buildBoundedLine,
+  buildCircle, buildIntersections, buildPolar, buildPole, buildTangents, buildSelfPolarTriangle, buildHarmonicConjugate,
+  buildConicFeatures, buildLocus, buildMeasure, buildTransform, buildTransformImages, buildParameter, numberedName,
+} from './constructions';
+
+// --- Text Commands ---
+// The command bar builds the same objects as the tools, from text such as
+//   A = (1, 2)                      a free point
+//   c = Ellipse((0, 0), 3, 2, 0)    a free conic: center, a, b, rotation
+//   p = Polar(A, c)
+//   Intersect(p, c)
+//   t = 2                           a parameter
+// Arguments are object names (in double quotes when the name contains unbalanced brackets or a
+// comma outside brackets), numbers and (x, y) pairs. Numbers are expressions; when they use
+// parameters, the field they set is bound to them. `name =` names the result, or numbers the
+// results (name1, name2, ...) when there are several.
+
+type ArgKind = 'point' | 'line' | 'conic' | 'object' | 'number' | 'coords';
+
+// A number argument: its value and its text, kept as a binding when it uses parameters
+interface NumberArg {
+  value: number;
+  text: string;
+}
+
+interface CoordsArg {
+  x: NumberArg;
+  y: NumberArg;
+}
+
+type ParsedArg =
+  | { kind: 'object'; text: string; entity: GeoEntity }
+  | { kind: 'number'; text: string; number: NumberArg }
+  | { kind: 'coords'; text: string; coords: CoordsArg };
+
+// What a command made: everything to add, and the objects an assignment names
+interface BuildResult {
+  created: GeoEntity[];
+  named: GeoEntity[];
+  error: string | null;
+}
+
+// What each kind of argument resolves to
+interface ArgTypes {
+  point: GeoPoint;
+  line: LinearEntity;
+  conic: ConicEntity;
+  object: GeoEntity;
+  number: NumberArg;
+  coords: CoordsArg;
+}
+
+type CommandArg = ArgTypes[ArgKind];
+
+// The arguments of a signature, e.g. [GeoPoint, NumberArg] for ['point', 'number']
+type ArgsOf<S extends readonly ArgKind[]> = { -readonly [I in keyof S]: S[I] extends ArgKind ? ArgTypes[S[I]] : never };
+
+type Signatures = readonly (readonly ArgKind[])[];
+
+interface CommandSpec<S extends Signatures = Signatures> {
+  // Accepted argument lists
+  signatures: S;
+  description: string;
+  // Called with the arguments of a matching signature
+  build: (args: ArgsOf<S[number]>, objects: GeoEntity[]) => BuildResult;
+}
+
+export interface CommandResult {
+  objects: GeoEntity[];
+  // The objects to select afterwards (the named results)
+  results: GeoEntity[];
+  error: string | null;
+}
+
+export interface Completion {
+  label: string;
+  // Text that replaces the word being typed
+  insert: string;
+  detail: string;
+}
+
+const done = (created: GeoEntity[], named = created): BuildResult => ({ created, named, error: null });
+const fail = (error: string): BuildResult => ({ created: [], named: [], error });
+
+const KIND_LABELS: Record<ArgKind, string> = {
+  point: 'point',
+  line: 'line',
+  conic: 'conic',
+  object: 'object',
+  number: 'number',
+  coords: '(x, y)',
+};
+
+const TYPE_LABELS: Record<ObjectType, string> = {
+  [ObjectType.POINT]: 'point',
+  [ObjectType.LINE]: 'line',
+  [ObjectType.SEGMENT]: 'segment',
+  [ObjectType.RAY]: 'ray',
+  [ObjectType.CONIC]: 'conic',
+  [ObjectType.CIRCLE]: 'circle',
+  [ObjectType.LOCUS]: 'locus',
+  [ObjectType.MEASURE]: 'measurement',
+  [ObjectType.TRANSFORM]: 'transformation',
+  [ObjectType.PARAMETER]: 'parameter',
+};
+
+const article = (word: string) => (/^[aeiou]/.test(word) ? `an ${word}` : `a ${word}`);
+
+// Fields set from number arguments, bound when the argument uses parameters
+const bindingsOf = (fields: Record<string, NumberArg>) => {
+  const bindings: Record<string, string> = {};
+  Object.entries(fields).forEach(([field, arg]) => {
+    if (isBindingExpression(arg.text)) bindings[field] = arg.text.trim();
+  });
+  return Object.keys(bindings).length > 0 ? { bindings } : {};
+};
+
+const distinct = (entities: GeoEntity[]) => new Set(entities.map(e => e.id)).size === entities.length;
+
+// Ellipse and hyperbola: center, semi-axes and an optional rotation
+const buildCentralConic = (conicType: ConicType) => ([center, a, b, rotation]: [CoordsArg, NumberArg, NumberArg, NumberArg?], objects: GeoEntity[]) => {
+  if (!(a.value > 0) || !(b.value > 0)) return fail('The semi-axes must be positive');
+  const conic = buildConic(numberedName('C', ObjectType.CONIC, objects), conicType, center.x.value, center.y.value, a.value, b.value, rotation?.value ?? 0);
+  return done([{ ...conic, ...bindingsOf({ cx: center.x, cy: center.y, a, b, ...(rotation && { rotation }) }) }]);
+};
+
+const buildFeatures = (feature: ConicFeature, label: string) => ([conic]: [ConicEntity]) =>
+  conic.type !== ObjectType.CONIC || isDegenerateConicType(conic.conicType)
+    ? fail(`${label} needs an ellipse, hyperbola or parabola`)
+    : done(buildConicFeatures(conic as GeoConic, feature));
+
+// Measurements take their inputs in the order of `MEASURE_INPUTS`; `types` are the measurements
+// one command stands for, told apart by their inputs
+const buildMeasureCommand = (types: MeasureType[]) => (inputs: GeoEntity[]) => {
+  if (!distinct(inputs)) return fail('The inputs must be different objects');
+  const measureType = types.find(t => MEASURE_INPUTS[t].every((type, i) => objectKind(inputs[i].type) === type));
+  return done([buildMeasure(measureType, inputs)]);
+};
+
+// Types `build` against the signatures
+const command = <const S extends Signatures>(spec: CommandSpec<S>): CommandSpec => spec;
+
+export const COMMANDS: Record<string, CommandSpec> = {
+  Point: command({
+    signatures: [['line'], ['conic']],
+    description: 'A point sliding on a line or conic',
+    build: ([target], objects) => {
+      const name = numberedName('P', ObjectType.POINT, objects);
+      return done([isLinear(target) ? buildPointOnLine(name, target, 0, 0) : buildPointOnConic(name, target, 0, 0)]);
+    },
+  }),
+  Line: command({
+    signatures: [['point', 'point'], ['point', 'number']],
+    description: 'The line through two points, or turning around a point at an angle (radians)',
+    build: ([p, q]) => {
+      if ('type' in q) return p.id === q.id ? fail('The points must be different') : done([buildLineThroughPoints(p, q)]);
+      return done([{ ...buildPivotLine(p, q.value), ...bindingsOf({ angle: q }) }]);
+    },
+  }),
+  Segment: command({
+    signatures: [['point', 'point']],
+    description: 'The segment between two points',
+    build: ([p, q]) => (p.id === q.id ? fail('The points must be different') : done([buildBoundedLine(ObjectType.SEGMENT, p, q)])),
+  }),
+  Ray: command({
+    signatures: [['point', 'point']],
+    description: 'The ray from a point through another',
+    build: ([p, q]) => (p.id === q.id ? fail('The points must be different') : done([buildBoundedLine(ObjectType.RAY, p, q)])),
+  }),
+  Circle: command({
+    signatures: [['point', 'point'], ['point', 'number'], ['point', 'point', 'point']],
+    description: 'Circle by center and point, center and radius, or three points',
+    build: args => {
+      const [center, second] = args;
+      if (!('type' in second)) {
+        if (!(second.value > 0)) return fail('The radius must be positive');
+        return done([{ ...buildCircle(CircleDefinition.CENTER_RADIUS, [center], second.value), ...bindingsOf({ radius: second }) }]);
+      }
+      const points = args as GeoPoint[];
+      if (!distinct(points)) return fail('The points must be different');
+      return done([buildCircle(points.length === 3 ? CircleDefinition.THREE_POINTS : CircleDefinition.CENTER_POINT, points)]);
+    },
+  }),
+  Ellipse: command({
+    signatures: [['coords', 'number', 'number'], ['coords', 'number', 'number', 'number']],
+    description: 'A free ellipse: center, semi-major and semi-minor axis, rotation',
+    build: buildCentralConic(ConicType.ELLIPSE),
+  }),
+  Hyperbola: command({
+    signatures: [['coords', 'number', 'number'], ['coords', 'number', 'number', 'number']],
+    description: 'A free hyperbola: center, semi-axes a and b, rotation',
+    build: buildCentralConic(ConicType.HYPERBOLA),
+  }),
+  Parabola: command({
+    signatures: [['coords', 'number'], ['coords', 'number', 'number']],
+    description: 'A free parabola: vertex, focal length, rotation',
+    build: ([vertex, a, rotation], objects) => {
+      if (!(a.value > 0)) return fail('The focal length must be positive');
+      const conic = buildConic(numberedName('C', ObjectType.CONIC, objects), ConicType.PARABOLA, vertex.x.value, vertex.y.value, a.value, 1, rotation?.value ?? 0);
+      return done([{ ...conic, ...bindingsOf({ cx: vertex.x, cy: vertex.y, a, ...(rotation && { rotation }) }) }]);
+    },
+  }),
+  Conic: command({
+    signatures: [['point', 'point', 'point', 'point', 'point']],
+    description: 'The conic through five points',
+    build: (points, objects) =>
+      distinct(points) ? done([buildFivePointConic(numberedName('C', ObjectType.CONIC, objects), points)]) : fail('The points must be different'),
+  }),
+  Intersect: command({
+    signatures: [['line', 'line'], ['line', 'conic'], ['conic', 'line'], ['conic', 'conic']],
+    description: 'The intersection points of two lines or conics',
+    build: ([first, second]) => {
+      const points = buildIntersections(first, second);
+      return points.length > 0 ? done(points) : fail('Intersect needs two different objects');
+    },
+  }),
+  Tangents: command({
+    signatures: [['point', 'conic']],
+    description: 'The tangents from a point to a conic',
+    build: ([point, conic]) => {
+      const created = buildTangents(point, conic);
+      return done(created, created.slice(3));
+    },
+  }),
+  Polar: command({
+    signatures: [['point', 'conic']],
+    description: 'The polar line of a point with respect to a conic',
+    build: ([point, conic]) => done([buildPolar(point, conic)]),
+  }),
+  Pole: command({
+    signatures: [['line', 'conic']],
+    description: 'The pole of a line with respect to a conic',
+    build: ([line, conic]) => done([buildPole(line, conic)]),
+  }),
+  SelfPolarTriangle: command({
+    signatures: [['point', 'conic']],
+    description: 'A self-polar triangle with the point as a vertex (names the two new vertices)',
+    build: ([point, conic]) => {
+      const created = buildSelfPolarTriangle(conic, point);
+      return done(created, created.filter(o => o.type === ObjectType.POINT));
+    },
+  }),
+  Harmonic: command({
+    signatures: [['point', 'point', 'point']],
+    description: 'The harmonic conjugate of the third point with respect to the first two',
+    build: ([a, b, c]) =>
+      harmonicConjugate(a, b, c) ? done([buildHarmonicConjugate(a, b, c)]) : fail('The third point must lie on the line through the first two'),
+  }),
+  Foci: command({ signatures: [['conic']], description: 'The foci of a conic', build: buildFeatures(ConicFeature.FOCUS, 'Foci') }),
+  Vertices: command({ signatures: [['conic']], description: 'The vertices of a conic', build: buildFeatures(ConicFeature.VERTEX, 'Vertices') }),
+  Directrices: command({ signatures: [['conic']], description: 'The directrices of a conic', build: buildFeatures(ConicFeature.DIRECTRIX, 'Directrices') }),
+  Axes: command({ signatures: [['conic']], description: 'The axes of symmetry of a conic', build: buildFeatures(ConicFeature.AXIS, 'Axes') }),
+  Locus: command({
+    signatures: [['object', 'point']],
+    description: 'The locus of a point while a driver (point on a line or pivot line) moves',
+    build: ([driver, traced], objects) => {
+      if (!isLocusDriver(driver)) return fail(`"${driver.name}" is not a point on a line or a pivot line`);
+      if (!collectDependents(buildDependencyGraph(objects), [driver.id]).has(traced.id)) return fail(`"${traced.name}" does not depend on "${driver.name}"`);
+      return done([buildLocus(driver, traced)]);
+    },
+  }),
+  Distance: command({
+    signatures: [['point', 'point'], ['point', 'line']],
+    description: 'Distance between two points, or from a point to a line',
+    build: buildMeasureCommand([MeasureType.DISTANCE, MeasureType.POINT_LINE_DISTANCE]),
+  }),
+  Angle: command({ signatures: [['line', 'line']], description: 'Angle between two lines', build: buildMeasureCommand([MeasureType.ANGLE]) }),
+  Area: command({ signatures: [['point', 'point', 'point']], description: 'Area of a triangle', build: buildMeasureCommand([MeasureType.AREA]) }),
+  Slope: command({ signatures: [['line']], description: 'Slope of a line', build: buildMeasureCommand([MeasureType.SLOPE]) }),
+  CrossRatio: command({
+    signatures: [['point', 'point', 'point', 'point'], ['line', 'line', 'line', 'line']],
+    description: 'Cross-ratio (A, B; C, D) of four collinear points or four concurrent lines',
+    build: buildMeasureCommand([MeasureType.CROSS_RATIO, MeasureType.CROSS_RATIO_LINES]),
+  }),
+  Transform: command({
+    signatures: [['point', 'point', 'point', 'point', 'point', 'point', 'point', 'point']],
+    description: 'The projective transformation taking four points to four others, with the images',
+    build: (points, objects) => {
+      const [sources, targets] = [points.slice(0, 4), points.slice(4)];
+      if (!distinct(sources) || !distinct(targets) || !homographyFromPoints(sources, targets)) {
+        return fail('No three of the source points, or of the target points, may be collinear');
+      }
+      const transform = buildTransform(sources, targets);
+      return done([transform, ...buildTransformImages(transform, objects)], [transform]);
+    },
+  }),
+};
+
+// --- Parsing ---
+
+// `Polar(point, conic)`
+export const commandUsage = (name: string) =>
+  COMMANDS[name].signatures.map(s => `${name}(${s.map(k => KIND_LABELS[k]).join(', ')})`).join(' or ');
+
+// Command names are not case-sensitive
+const findCommand = (name: string) => Object.keys(COMMANDS).find(k => k.toLowerCase() === name.toLowerCase());
+
+// Index of the bracket closing the one at `open`, skipping quoted names; -1 when unbalanced
+const closingBracket = (text: string, open: number) => {
+  let depth = 0;
+  let quoted = false;
+  for (let i = open; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') quoted = !quoted;
+    else if (quoted) continue;
+    else if (ch === '(') depth++;
+    else if (ch === ')' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// Splits at `separator` outside brackets and quotes; null when they are unbalanced
+const splitTopLevel = (text: string, separator: string): string[] | null => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') quoted = !quoted;
+    else if (quoted) continue;
+    else if (ch === '(') depth++;
+    else if (ch === ')' && --depth < 0) return null;
+    else if (ch === separator && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  if (depth !== 0 || quoted) return null;
+  parts.push(text.slice(start));
+  return parts;
+};
+
+// Whether a name has to be quoted to be used as an argument
+const needsQuotes = (name: string) => splitTopLevel(name, ',')?.length !== 1 || name.trim() !== name;
+
+export const quoteName = (name: string) => (needsQuotes(name) ? `"${name}"` : name);
+
+// `(x, y)` as its two parts, or null
+const splitCoordinates = (text: string) => {
+  if (!text.startsWith('(') || closingBracket(text, 0) !== text.length - 1) return null;
+  const parts = splitTopLevel(text.slice(1, -1), ',');
+  return parts && parts.length > 1 ? parts : null;
+};
+
+const parseNumber = (text: string, scope: Record<string, number>): { number: NumberArg | null; error: string | null } => {
+  const { value, error } = evaluateExpression(text, scope);
+  if (!error) return { number: { value, text }, error: null };
+  if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(text)) return { number: null, error: `No object or parameter named "${text}"` };
+  return { number: null, error: `"${text}": ${error}` };
+};
+
+const parseCoordinates = (parts: string[], scope: Record<string, number>): { coords: CoordsArg | null; error: string | null } => {
+  if (parts.length !== 2) return { coords: null, error: 'Coordinates are written (x, y)' };
+  const [x, y] = parts.map(p => parseNumber(p.trim(), scope));
+  const error = x.error ?? y.error;
+  return error ? { coords: null, error } : { coords: { x: x.number, y: y.number }, error: null };
+};
+
+// Objects named `name`; several of them make the name ambiguous rather than picking one
+const findByName = (name: string, candidates: GeoEntity[]): { entity: GeoEntity | null; error: string | null } => {
+  const matches = candidates.filter(o => o.name === name);
+  if (matches.length > 1) return { entity: null, error: `Name "${name}" is ambiguous (${matches.length} objects)` };
+  return { entity: matches[0] ?? null, error: null };
+};
+
+// An argument is a quoted name, the name of an object, an (x, y) pair or a number
+const parseArgument = (raw: string, objects: GeoEntity[], scope: Record<string, number>): { arg: ParsedArg | null; error: string | null } => {
+  const text = raw.trim();
+  if (!text) return { arg: null, error: 'Missing argument' };
+
+  if (text.length > 1 && text.startsWith('"') && text.endsWith('"')) {
+    const name = text.slice(1, -1);
+    const { entity, error } = findByName(name, objects);
+    if (error) return { arg: null, error };
+    return entity ? { arg: { kind: 'object', text, entity }, error: null } : { arg: null, error: `No object named "${name}"` };
+  }
+
+  // Parameters are numbers, whatever their name
+  const named = findByName(text, objects.filter(o => !isParameter(o)));
+  if (named.error) return { arg: null, error: named.error };
+  if (named.entity) return { arg: { kind: 'object', text, entity: named.entity }, error: null };
+
+  const parts = splitCoordinates(text);
+  if (parts) {
+    const { coords, error } = parseCoordinates(parts, scope);
+    return error ? { arg: null, error } : { arg: { kind: 'coords', text, coords }, error: null };
+  }
+
+  const { number, error } = parseNumber(text, scope);
+  return error ? { arg: null, error } : { arg: { kind: 'number', text, number }, error: null };
+};
+
+const matchesKind = (arg: ParsedArg, kind: ArgKind) => {
+  if (arg.kind === 'object') {
+    const { entity } = arg;
+    return kind === 'object'
+      || (kind === 'point' && entity.type === ObjectType.POINT)
+      || (kind === 'line' && isLinear(entity))
+      || (kind === 'conic' && isConicLike(entity));
+  }
+  return arg.kind === kind;
+};
+
+const describeArg = (arg: ParsedArg) =>
+  arg.kind === 'object' ? article(TYPE_LABELS[arg.entity.type]) : arg.kind === 'number' ? 'a number' : 'a pair of coordinates';
+
+// The error for arguments that fit no signature, naming the first mismatch when the count is right
+const signatureError = (name: string, args: ParsedArg[]) => {
+  const usage = commandUsage(name);
+  const sameCount = COMMANDS[name].signatures.filter(s => s.length === args.length);
+  if (sameCount.length !== 1) {
+    const counts = Array.from(new Set(COMMANDS[name].signatures.map(s => s.length))).join(' or ');
+    return sameCount.length === 0 ? `${name} takes ${counts} argument${counts === '1' ? '' : 's'}, got ${args.length}: ${usage}` : `Expected ${usage}`;
+  }
+  const i = sameCount[0].findIndex((kind, j) => !matchesKind(args[j], kind));
+  return `Expected ${usage}: "${args[i].text}" is ${describeArg(args[i])}, not ${article(KIND_LABELS[sameCount[0][i]])}`;
+};
+
+const runCall = (name: string, argText: string, objects: GeoEntity[], scope: Record<string, number>): BuildResult => {
+  const parts = argText.trim() ? splitTopLevel(argText, ',') : [];
+  if (!parts) return fail('Unbalanced brackets or quotes');
+  const args: ParsedArg[] = [];
+  for (const part of parts) {
+    const { arg, error } = parseArgument(part, objects, scope);
+    if (error) return fail(error);
+    args.push(arg);
+  }
+
+  const signature = COMMANDS[name].signatures.find(s => s.length === args.length && s.every((kind, i) => matchesKind(args[i], kind)));
+  if (!signature) return fail(signatureError(name, args));
+  const resolved: CommandArg[] = args.map(a => (a.kind === 'object' ? a.entity : a.kind === 'number' ? a.number : a.coords));
+  return COMMANDS[name].build(resolved, objects);
+};
+
+// `target = ...` names the results: the only one gets the name, several are numbered
+const nameResults = (target: string, { created, named }: BuildResult, objects: GeoEntity[]): { names: string[] | null; error: string | null } => {
+  if (named.length === 0) return { names: null, error: 'This command has no result to name' };
+  const names = named.length === 1 ? [target] : named.map((_, i) => `${target}${i + 1}`);
+  // Helper objects created along with the results keep their names
+  const others = [...objects, ...created.filter(o => !named.includes(o))];
+  const taken = names.find(n => others.some(o => o.name === n));
+  return taken ? { names: null, error: `The name "${taken}" is already used` } : { names, error: null };
+};
+
+// Runs one command against the current objects. The new objects are not solved yet.
+export const runCommand = (text: string, objects: GeoEntity[]): CommandResult => {
+  const failed = (error: string): CommandResult => ({ objects: [], results: [], error });
+  const scope = parameterScope(objects);
+
+  const sides = splitTopLevel(text, '=');
+  if (!sides) return failed('Unbalanced brackets or quotes');
+  if (sides.length > 2) return failed('Only one "=" is allowed');
+  const target = sides.length === 2 ? sides[0].trim() : null;
+  const body = sides[sides.length - 1].trim();
+  if (target !== null && !/^[A-Za-z_][A-Za-z0-9_']*$/.test(target)) return failed(`"${target}" is not a valid name (letters, digits, _ and ')`);
+  if (!body) return failed(target !== null ? `Missing definition of "${target}"` : 'Type a command, e.g. A = (1, 2)');
+
+  let result: BuildResult;
+  const call = body.match(/^([A-Za-z_][A-Za-z0-9_]*)\s*\(/);
+  const command = call && findCommand(call[1]);
+  const coordinates = splitCoordinates(body);
+
+  if (command && closingBracket(body, call[0].length - 1) === body.length - 1) {
+    result = runCall(command, body.slice(call[0].length, -1), objects, scope);
+  } else if (coordinates) {
+    // A free point, bound to the parameters its coordinates use
+    const { coords, error } = parseCoordinates(coordinates, scope);
+    if (error) return failed(error);
+    const point = buildPoint(numberedName('P', ObjectType.POINT, objects), coords.x.value, coords.y.value);
+    result = done([{ ...point, ...bindingsOf({ x: coords.x, y: coords.y }) }]);
+  } else if (call && !command && !Object.prototype.hasOwnProperty.call(FUNCTIONS, call[1])) {
+    return failed(`Unknown command "${call[1]}"`);
+  } else {
+    // A plain number defines a parameter
+    if (target === null) return failed(`Name the parameter, e.g. t = ${body}`);
+    if (!isVariableName(target)) return failed(`"${target}" cannot be used as a parameter name`);
+    const { number, error } = parseNumber(body, scope);
+    if (error) return failed(error);
+    const parameter = buildParameter(target);
+    result = done([{ ...parameter, value: number.value, min: Math.min(parameter.min, number.value), max: Math.max(parameter.max, number.value) }]);
+  }
+
+  if (result.error) return failed(result.error);
+  if (target === null) return { objects: result.created, results: result.named, error: null };
+
+  const { names, error } = nameResults(target, result, objects);
+  if (error) return failed(error);
+  const renamed = new Map(result.named.map((o, i) => [o.id, names[i]]));
+  return {
+    objects: result.created.map(o => (renamed.has(o.id) ? { ...o, name: renamed.get(o.id) } : o)),
+    results: result.named.map((o, i) => ({ ...o, name: names[i] })),
+    error: null,
+  };
+};
+
+// --- Autocompletion ---
+const MAX_COMPLETIONS = 8;
+
+// Completions for the word that ends at `cursor`: commands where a definition starts, object and
+// parameter names anywhere. `from` is where the word starts.
+export const commandCompletions = (text: string, cursor: number, objects: GeoEntity[]): { from: number; items: Completion[] } => {
+  const before = text.slice(0, cursor);
+  const word = before.match(/"?[A-Za-z0-9_']*$/)[0];
+  const from = cursor - word.length;
+  const prefix = word.replace(/^"/, '').toLowerCase();
+  if (!prefix) return { from, items: [] };
+
+  const startsDefinition = /^\s*([A-Za-z_][A-Za-z0-9_']*\s*=\s*)?$/.test(before.slice(0, from));
+  const commands: Completion[] = startsDefinition
+    ? Object.keys(COMMANDS)
+        .filter(name => name.toLowerCase().startsWith(prefix))
+        .map(name => ({ label: commandUsage(name), insert: `${name}(`, detail: COMMANDS[name].description }))
+    : [];
+  const names: Completion[] = objects
+    .filter(o => o.name.toLowerCase().startsWith(prefix) && o.name !== word)
+    .map(o => ({
+      label: o.name,
+      insert: isParameter(o) ? o.name : quoteName(o.name),
+      detail: isParameter(o) ? `parameter = ${parseFloat(o.value.toFixed(4))}` : TYPE_LABELS[o.type],
+    }));
+
+  return { from, items: [...commands, ...names].slice(0, MAX_COMPLETIONS) };
+};
@@ -0,0 +1,392 @@
+import { GeoConic, GeoEntity, GeoLine, GeoLocus, GeoMeasure, GeoPoint, GeoSegment, GeoRay, GeoCircle, GeoTransform, GeoParameter, ObjectType, ConicType, ConicFeature, MeasureType, CircleDefinition } from '../types';
+import { generalToStandardConic } from './math';
+import { measureName } from './measurements';
+import { buildDependencyGraph, collectDependents } from './graph';
+import { isLinear, isConicLike, LinearEntity, ConicEntity } from './objects';
+
+// --- Construction Builders ---
+// Create new dependent objects with placeholder positions; `solveGeometry` computes
+// them once they are added.
+
+const CONIC_FEATURE_STYLES: Record<ConicFeature, { label: string; color: string }> = {
+  [ConicFeature.FOCUS]: { label: 'F', color: '#f59e0b' },
+  [ConicFeature.VERTEX]: { label: 'V', color: '#ffffff' },
+  [ConicFeature.DIRECTRIX]: { label: 'd', color: '#f59e0b' },
+  [ConicFeature.AXIS]: { label: 'ax', color: '#64748b' },
+};
+
+// Default name of a new object: `prefix` followed by the number of objects of its type
+export const numberedName = (prefix: string, type: ObjectType, objects: GeoEntity[]) =>
+  `${prefix}${objects.filter(o => o.type === type).length + 1}`;
+
+// A free point
+export const buildPoint = (name: string, x: number, y: number): GeoPoint => ({
+  id: crypto.randomUUID(),
+  type: ObjectType.POINT,
+  name,
+  color: '#ffffff',
+  x,
+  y,
+  isFree: true,
+});
+
+// A point sliding on `line`, starting near (x, y)
+export const buildPointOnLine = (name: string, line: LinearEntity, x: number, y: number): GeoPoint => ({
+  id: crypto.randomUUID(),
+  type: ObjectType.POINT,
+  name,
+  color: '#ffffff',
+  x,
+  y,
+  isFree: false,
+  onLineId: line.id,
+});
+
+// A point sliding on `conic`, starting at its closest point to (x, y)
+export const buildPointOnConic = (name: string, conic: ConicEntity, x: number, y: number): GeoPoint => ({
+  id: crypto.randomUUID(),
+  type: ObjectType.POINT,
+  name,
+  color: '#ffffff',
+  x,
+  y,
+  isFree: false,
+  onConicId: conic.id,
+});
+
+// A free ellipse, hyperbola or parabola (for a parabola (cx, cy) is the vertex and `a` the focal length)
+export const buildConic = (name: string, conicType: ConicType, cx: number, cy: number, a: number, b: number, rotation = 0): GeoConic => ({
+  id: crypto.randomUUID(),
+  type: ObjectType.CONIC,
+  conicType,
+  name,
+  color: '#f59e0b',
+  cx,
+  cy,
+  a,
+  b,
+  rotation,
+  coeffs: { A: 0, B: 0, C: 0, D: 0, E: 0, F: 0 },
+});
+
+// The conic through five points
+export const buildFivePointConic = (name: string, points: GeoPoint[]): GeoConic => ({
+  ...buildConic(name, ConicType.ELLIPSE, 0, 0, 1, 1),
+  dependencies: points.map(p => p.id),
+});
+
+// The line through p1 and p2
+export const buildLineThroughPoints = (p1: GeoPoint, p2: GeoPoint): GeoLine => ({
+  id: crypto.randomUUID(),
+  type: ObjectType.LINE,
+  name: `L(${p1.name},${p2.name})`,
+  color: '#3b82f6',
+  a: 0, b: 0, c: 0,
+  isFree: false,
+  p1Id: p1.id,
+  p2Id: p2.id,
+});
+
+// A line turning around `pivot`, at `angle` radians
+export const buildPivotLine = (pivot: GeoPoint, angle = 0): GeoLine => ({
+  id: crypto.randomUUID(),
+  type: ObjectType.LINE,
+  name: `L(${pivot.name})`,
+  color: '#3b82f6',
+  isFree: true,
+  a: 0, b: 0, c: 0,
+  pivotPointId: pivot.id,
+  angle,
+});
+
+// The intersection points of two objects: one for two lines, two for a line and a conic (in
+// either order), four for two conics. Empty when the objects cannot be intersected.
+export const buildIntersections = (first: GeoEntity, second: GeoEntity): GeoPoint[] => {
+  const point = (name: string, dependencies: string[], solutionIndex?: number): GeoPoint => ({
+    id: crypto.randomUUID(),
+    type: ObjectType.POINT,
+    name,
+    color: '#ffffff',
+    x: 0, y: 0,
+    isFree: false,
+    dependencies,
+    ...(solutionIndex !== undefined && { solutionIndex }),
+  });
+  if (first.id === second.id) return [];
+
+  const line = isLinear(first) ? first : isLinear(second) ? second : null;
+  const conic = isConicLike(first) ? first : isConicLike(second) ? second : null;
+  if (line && conic) {
+    return [0, 1].map(i => point(`I${i + 1}(${line.name},${conic.name})`, [line.id, conic.id], i));
+  }
+  if (isConicLike(first) && isConicLike(second)) {
+    // Two conics meet in up to 4 points; missing ones stay hidden until they become real
+    return [0, 1, 2, 3].map(i => point(`I${i + 1}(${first.name},${second.name})`, [first.id, second.id], i));
+  }
+  if (isLinear(first) && isLinear(second)) {
+    return [point(`I(${first.name},${second.name})`, [first.id, second.id])];
+  }
+  return [];
+};
+
+// The polar line of a point with respect to a conic
+export const buildPolar = (point: GeoPoint, conic: ConicEntity): GeoLine => ({
+  id: crypto.randomUUID(),
+  type: ObjectType.LINE,
+  name: `Polar(${point.name})`,
+  color: '#ef4444',
+  a: 0, b: 0, c: 0,
+  isFree: false,
+  dependencies: [point.id, conic.id],
+});
+
+// The pole of a line with respect to a conic
+export const buildPole = (line: LinearEntity, conic: ConicEntity): GeoPoint => ({
+  id: crypto.randomUUID(),
+  type: ObjectType.POINT,
+  name: `Pole(${line.name})`,
+  color: '#ef4444',
+  x: 0, y: 0,
+  isFree: false,
+  dependencies: [line.id, conic.id],
+});
+
+// The tangents from a point to a conic, through the points where the (hidden) polar of the point
+// meets the conic: [polar, T1, T2, tangent 1, tangent 2]
+export const buildTangents = (point: GeoPoint, conic: ConicEntity): GeoEntity[] => {
+  const polar: GeoLine = { ...buildPolar(point, conic), color: '#666', visible: false };
+  const [t1, t2] = [0, 1].map((solutionIndex): GeoPoint => ({
+    id: crypto.randomUUID(), type: ObjectType.POINT, name: `T${solutionIndex + 1}`, color: '#d1d5db',
+    x: 0, y: 0, isFree: false, dependencies: [polar.id, conic.id], solutionIndex,
+  }));
+  const [l1, l2] = [t1, t2].map((t, i): GeoLine => ({
+    id: crypto.randomUUID(), type: ObjectType.LINE, name: `Tan${i + 1}(${point.name})`, color: '#a78bfa',
+    isFree: false, a: 0, b: 0, c: 0, p1Id: point.id, p2Id: t.id,
+  }));
+  return [polar, t1, t2, l1, l2];
+};
+
+// A self-polar triangle of a conic with `point` as a vertex: the second vertex slides on the
+// polar of the first and the third is the pole of the side through them. [l1, p2, l2, p3, l3]
+export const buildSelfPolarTriangle = (conic: ConicEntity, point: GeoPoint): GeoEntity[] => {
+  const l1: GeoLine = { id: crypto.randomUUID(), type: ObjectType.LINE, name: `p(${point.name})`, color: '#666', isFree: false, a: 0, b: 0, c: 0, dependencies: [point.id, conic.id] };
+  const p2: GeoPoint = { id: crypto.randomUUID(), type: ObjectType.POINT, name: `${point.name}'`, color: '#fff', x: 0, y: 0, isFree: true, onLineId: l1.id };
+  const l2: GeoLine = { id: crypto.randomUUID(), type: ObjectType.LINE, name: `p(${p2.name})`, color: '#666', isFree: false, a: 0, b: 0, c: 0, dependencies: [p2.id, conic.id] };
+  const p3: GeoPoint = { id: crypto.randomUUID(), type: ObjectType.POINT, name: `${point.name}''`, color: '#fff', x: 0, y: 0, isFree: false, dependencies: [l1.id, l2.id] };
+  const l3: GeoLine = { id: crypto.randomUUID(), type: ObjectType.LINE, name: `p(${p3.name})`, color: '#666', isFree: false, a: 0, b: 0, c: 0, dependencies: [p3.id, conic.id] };
+  return [l1, p2, l2, p3, l3];
+};
+
+// Parabolas have one focus/vertex/directrix/axis, ellipses and hyperbolas two
+export const conicFeatureCount = (conic: GeoConic) => (conic.conicType === ConicType.PARABOLA ? 1 : 2);
+
+// All foci (or vertices, directrices, axes) of a conic
+export const buildConicFeatures = (conic: GeoConic, feature: ConicFeature): GeoEntity[] => {
+  const { label, color } = CONIC_FEATURE_STYLES[feature];
+  const count = conicFeatureCount(conic);
+  const isPoint = feature === ConicFeature.FOCUS || feature === ConicFeature.VERTEX;
+
+  return Array.from({ length: count }, (_, solutionIndex) => {
+    const base = {
+      id: crypto.randomUUID(),
+      name: `${label}${count > 1 ? solutionIndex + 1 : ''}(${conic.name})`,
+      color,
+      isFree: false,
+      dependencies: [conic.id],
+      conicFeature: feature,
+      solutionIndex,
+    };
+    return isPoint
+      ? { ...base, type: ObjectType.POINT, x: 0, y: 0 }
+      : { ...base, type: ObjectType.LINE, a: 0, b: 0, c: 0 };
+  });
+};
+
+// Number of points each kind of circle is defined by, and its name in the UI
+export const CIRCLE_INPUTS: Record<CircleDefinition, number> = {
+  [CircleDefinition.CENTER_POINT]: 2,
+  [CircleDefinition.CENTER_RADIUS]: 1,
+  [CircleDefinition.THREE_POINTS]: 3,
+};
+
+export const CIRCLE_LABELS: Record<CircleDefinition, string> = {
+  [CircleDefinition.CENTER_POINT]: 'Center & Point',
+  [CircleDefinition.CENTER_RADIUS]: 'Center & Radius',
+  [CircleDefinition.THREE_POINTS]: 'Three Points',
+};
+
+// Segment from p1 to p2, or ray from p1 through p2
+export const buildBoundedLine = (type: ObjectType.SEGMENT | ObjectType.RAY, p1: GeoPoint, p2: GeoPoint): GeoSegment | GeoRay => ({
+  id: crypto.randomUUID(),
+  type,
+  name: `${type === ObjectType.SEGMENT ? 'Seg' : 'Ray'}(${p1.name},${p2.name})`,
+  color: '#3b82f6',
+  a: 0, b: 0, c: 0,
+  p1Id: p1.id,
+  p2Id: p2.id,
+  start: { x: p1.x, y: p1.y },
+  end: { x: p2.x, y: p2.y },
+});
+
+// A circle through `points`, given in the order of its `CircleDefinition`
+export const buildCircle = (circleDefinition: CircleDefinition, points: GeoPoint[], radius = 1): GeoCircle => ({
+  id: crypto.randomUUID(),
+  type: ObjectType.CIRCLE,
+  circleDefinition,
+  name: `Circle(${points.map(p => p.name).join(',')})`,
+  color: '#f59e0b',
+  cx: 0, cy: 0,
+  radius,
+  coeffs: { A: 0, B: 0, C: 0, D: 0, E: 0, F: 0 },
+  dependencies: points.map(p => p.id),
+});
+
+// The point D with (A, B; C, D) = -1, for three collinear points
+export const buildHarmonicConjugate = (a: GeoPoint, b: GeoPoint, c: GeoPoint): GeoPoint => ({
+  id: crypto.randomUUID(),
+  type: ObjectType.POINT,
+  name: `H(${a.name},${b.name};${c.name})`,
+  color: '#a3e635',
+  x: 0, y: 0,
+  isFree: false,
+  dependencies: [a.id, b.id, c.id],
+  harmonicConjugate: true,
+});
+
+// Locus of `traced` while `driver` runs through its range
+export const buildLocus = (driver: GeoEntity, traced: GeoEntity): GeoLocus => ({
+  id: crypto.randomUUID(),
+  type: ObjectType.LOCUS,
+  name: `Locus(${traced.name})`,
+  color: '#22d3ee',
+  samples: [],
+  dependencies: [driver.id, traced.id],
+});
+
+// A free conic with the fitted equation of a locus. It is a copy: it does not follow the locus.
+export const buildLocusConic = (locus: GeoLocus): GeoConic | null => {
+  if (!locus.conicFit) return null;
+  const std = generalToStandardConic(locus.conicFit);
+  return {
+    id: crypto.randomUUID(),
+    type: ObjectType.CONIC,
+    conicType: std.conicType,
+    name: `Fit(${locus.name})`,
+    color: locus.color,
+    cx: std.cx ?? 0,
+    cy: std.cy ?? 0,
+    a: std.a ?? 0,
+    b: 'b' in std ? std.b : 0,
+    rotation: std.rotation ?? 0,
+    coeffs: { ...locus.conicFit },
+  };
+};
+
+// A measurement of `inputs`, given in the order of `MEASURE_INPUTS[measureType]`
+export const buildMeasure = (measureType: MeasureType, inputs: GeoEntity[]): GeoMeasure => ({
+  id: crypto.randomUUID(),
+  type: ObjectType.MEASURE,
+  measureType,
+  name: measureName(measureType, inputs),
+  color: '#facc15',
+  value: 0,
+  x: 0, y: 0,
+  shape: [],
+  dependencies: inputs.map(o => o.id),
+});
+
+// A parameter with the default slider range
+export const buildParameter = (name: string): GeoParameter => ({
+  id: crypto.randomUUID(),
+  type: ObjectType.PARAMETER,
+  name,
+  color: '#a78bfa',
+  value: 1,
+  min: -5,
+  max: 5,
+});
+
+// Projective transformation taking the four `sources` onto the four `targets`, in order
+export const buildTransform = (sources: GeoPoint[], targets: GeoPoint[]): GeoTransform => ({
+  id: crypto.randomUUID(),
+  type: ObjectType.TRANSFORM,
+  name: `T(${sources.map(p => p.name).join(',')})`,
+  color: '#818cf8',
+  matrix: null,
+  dependencies: [...sources, ...targets].map(p => p.id),
+});
+
+// The image of a single object, or null for objects without one (transforms, measurements)
+const buildImage = (transform: GeoTransform, obj: GeoEntity, imageIds: Map<string, string>): GeoEntity | null => {
+  const base = {
+    id: crypto.randomUUID(),
+    name: `${obj.name}'`,
+    color: obj.color,
+    dependencies: [transform.id, obj.id],
+    transformImage: true,
+  };
+  switch (obj.type) {
+    case ObjectType.POINT:
+      return { ...base, type: ObjectType.POINT, x: 0, y: 0, isFree: false };
+    case ObjectType.LINE:
+    case ObjectType.RAY:
+      return { ...base, type: ObjectType.LINE, a: 0, b: 0, c: 0, isFree: false };
+    case ObjectType.SEGMENT: {
+      const p1Id = imageIds.get(obj.p1Id);
+      const p2Id = imageIds.get(obj.p2Id);
+      if (!p1Id || !p2Id) return { ...base, type: ObjectType.LINE, a: 0, b: 0, c: 0, isFree: false };
+      return { ...base, type: ObjectType.SEGMENT, a: 0, b: 0, c: 0, p1Id, p2Id, start: { x: 0, y: 0 }, end: { x: 0, y: 0 } };
+    }
+    case ObjectType.CONIC:
+    case ObjectType.CIRCLE:
+      return {
+        ...base,
+        type: ObjectType.CONIC,
+        conicType: ConicType.ELLIPSE,
+        cx: 0, cy: 0, a: 0, b: 0, rotation: 0,
+        coeffs: { A: 0, B: 0, C: 0, D: 0, E: 0, F: 0 },
+      };
+    case ObjectType.LOCUS:
+      return { ...base, type: ObjectType.LOCUS, samples: [] };
+    default:
+      return null;
+  }
+};
+
+// Images of the whole construction under `transform`. The source points map onto the target
+// points themselves; the target points and everything built on them are left out. Measurements
+// are measured again on the images of their inputs (so invariants such as cross-ratios can be
+// compared), and skipped when an input has no image.
+export const buildTransformImages = (transform: GeoTransform, objects: GeoEntity[]): GeoEntity[] => {
+  const deps = transform.dependencies ?? [];
+  const sources = deps.slice(0, 4);
+  const targets = deps.slice(4);
+  const targetOnly = targets.filter(id => !sources.includes(id));
+  const excluded = collectDependents(buildDependencyGraph(objects), targetOnly);
+
+  const images = new Map<string, GeoEntity>();
+  sources.forEach((id, i) => {
+    const target = objects.find(o => o.id === targets[i]);
+    if (target) images.set(id, target);
+  });
+
+  // Points first, so segments can refer to the images of their ends, and measurements last
+  const candidates = objects.filter(o => !excluded.has(o.id) && !images.has(o.id) && o.type !== ObjectType.TRANSFORM);
+  const rank = (o: GeoEntity) => (o.type === ObjectType.POINT ? 0 : o.type === ObjectType.MEASURE ? 2 : 1);
+  const ordered = [0, 1, 2].flatMap(r => candidates.filter(o => rank(o) === r));
+  const imageIds = new Map(Array.from(images, ([id, image]) => [id, image.id]));
+  const created: GeoEntity[] = [];
+  ordered.forEach(obj => {
+    if (obj.type === ObjectType.MEASURE) {
+      const inputs = (obj.dependencies ?? []).map(id => images.get(id));
+      if (inputs.every((o): o is GeoEntity => !!o)) created.push(buildMeasure(obj.measureType, inputs));
+      return;
+    }
+    const image = buildImage(transform, obj, imageIds);
+    if (!image) return;
+    images.set(obj.id, image);
+    imageIds.set(obj.id, image.id);
+    created.push(image);
+  });
+  return created;
+};
@@ -0,0 +1,377 @@
+import { GeoEntity, ObjectType, ConicType, ConicFeature, ViewTransform, AnimationMode, MeasureType, CircleDefinition, MacroTool, StrokeStyle } from '../types';
+import { MEASURE_INPUTS } from './measurements';
+import { CIRCLE_INPUTS } from './constructions';
+import { findCycle } from './graph';
+import { objectKind } from './objects';
+import { MACRO_INPUT_KINDS } from './macros';
+
+// --- Construction Document Format ---
+// A saved construction is a JSON object:
+// {
+//   "format": "conic-geometry-sketchpad",
+//   "version": 2,
+//   "view": { "x": 640, "y": 360, "k": 50 },
+//   "objects": [ ...GeoEntity ],
+//   "macros": [ ...MacroTool ]
+// }
+// Objects are stored exactly as they live in App state, including the computed
+// positions/coefficients of dependent objects, so a file renders even before it is re-solved.
+// Version 1 documents have no custom tools ("macros"); they still open.
+
+export const DOCUMENT_FORMAT = 'conic-geometry-sketchpad';
+export const DOCUMENT_VERSION = 2;
+export const DOCUMENT_MIME_TYPE = 'application/json';
+export const DOCUMENT_EXTENSION = '.geo.json';
+
+export interface SketchDocument {
+  format: typeof DOCUMENT_FORMAT;
+  version: number;
+  view: ViewTransform;
+  objects: GeoEntity[];
+  macros: MacroTool[];
+}
+
+// Custom tools shared on their own: { "format": "conic-geometry-sketchpad-tools", "version": 1, "macros": [...] }
+export const TOOLS_FORMAT = 'conic-geometry-sketchpad-tools';
+export const TOOLS_VERSION = 1;
+export const TOOLS_EXTENSION = '.geotools.json';
+
+// A problem found while loading. Object-level issues carry the id/name of the broken object.
+export interface DocumentIssue {
+  objectId?: string;
+  objectName?: string;
+  message: string;
+}
+
+// `document` is null whenever `issues` is not empty
+export interface DocumentLoadResult {
+  document: SketchDocument | null;
+  issues: DocumentIssue[];
+}
+
+// `macros` is null whenever `issues` is not empty
+export interface ToolsLoadResult {
+  macros: MacroTool[] | null;
+  issues: DocumentIssue[];
+}
+
+export const serializeDocument = (objects: GeoEntity[], view: ViewTransform, macros: MacroTool[]): string => {
+  const doc: SketchDocument = {
+    format: DOCUMENT_FORMAT,
+    version: DOCUMENT_VERSION,
+    view,
+    objects,
+    macros,
+  };
+  return JSON.stringify(doc, null, 2);
+};
+
+export const serializeTools = (macros: MacroTool[]): string =>
+  JSON.stringify({ format: TOOLS_FORMAT, version: TOOLS_VERSION, macros }, null, 2);
+
+// --- Validation Helpers ---
+type Json = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Json => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+const isOptional = (v: unknown, check: (v: unknown) => boolean) => v === undefined || check(v);
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isBoolean = (v: unknown): v is boolean => typeof v === 'boolean';
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every(isString);
+const isStringRecord = (v: unknown) => isObject(v) && Object.values(v).every(isString);
+const isIndex = (v: unknown) => Number.isInteger(v) && (v as number) >= 0;
+
+const COEFF_KEYS = ['A', 'B', 'C', 'D', 'E', 'F'] as const;
+
+const isCoeffs = (v: unknown) => isObject(v) && COEFF_KEYS.every(k => isFiniteNumber(v[k]));
+const isPolylineList = (v: unknown) =>
+  Array.isArray(v) && v.every(line => Array.isArray(line) && line.every(p => isObject(p) && isFiniteNumber(p.x) && isFiniteNumber(p.y)));
+
+const isCoordinates = (v: unknown) => isObject(v) && isFiniteNumber(v.x) && isFiniteNumber(v.y);
+
+const isAnimation = (v: unknown) =>
+  isObject(v) && isBoolean(v.playing) && isFiniteNumber(v.speed) && (v.direction === 1 || v.direction === -1) &&
+  isFiniteNumber(v.min) && isFiniteNumber(v.max) && Object.values(AnimationMode).includes(v.mode as AnimationMode);
+
+const isConicFeature = (v: unknown, allowed: ConicFeature[]) => allowed.includes(v as ConicFeature);
+
+// Returns the shape problems of a single raw object (empty when it is well formed)
+const validateObjectShape = (raw: Json): string[] => {
+  const problems: string[] = [];
+  const expect = (ok: boolean, message: string) => { if (!ok) problems.push(message); };
+
+  expect(isString(raw.name), 'missing name');
+  expect(isString(raw.color), 'missing color');
+  expect(isOptional(raw.hidden, isBoolean), '"hidden" must be a boolean');
+  expect(isOptional(raw.visible, isBoolean), '"visible" must be a boolean');
+  expect(isOptional(raw.strokeStyle, v => Object.values(StrokeStyle).includes(v as StrokeStyle)), `unknown stroke style "${String(raw.strokeStyle)}"`);
+  expect(isOptional(raw.dependencies, isStringArray), '"dependencies" must be a list of ids');
+  expect(isOptional(raw.transformImage, isBoolean), '"transformImage" must be a boolean');
+  expect(isOptional(raw.bindings, isStringRecord), '"bindings" must map field names to expressions');
+
+  switch (raw.type) {
+    case ObjectType.POINT:
+      expect(isFiniteNumber(raw.x) && isFiniteNumber(raw.y), 'point coordinates must be numbers');
+      expect(raw.w === undefined || raw.w === 0 || raw.w === 1, '"w" must be 0 (point at infinity) or 1');
+      expect(isBoolean(raw.isFree), '"isFree" must be a boolean');
+      expect(isOptional(raw.onLineId, isString), '"onLineId" must be an id');
+      expect(isOptional(raw.onConicId, isString), '"onConicId" must be an id');
+      expect(isOptional(raw.solutionIndex, isIndex), '"solutionIndex" must be a non-negative integer');
+      expect(isOptional(raw.conicFeature, v => isConicFeature(v, [ConicFeature.FOCUS, ConicFeature.VERTEX])), '"conicFeature" of a point must be FOCUS or VERTEX');
+      expect(isOptional(raw.harmonicConjugate, isBoolean), '"harmonicConjugate" must be a boolean');
+      expect(isOptional(raw.branchTracked, isBoolean), '"branchTracked" must be a boolean');
+      expect(isOptional(raw.animation, isAnimation), '"animation" settings are malformed');
+      break;
+    case ObjectType.LINE:
+      expect(isFiniteNumber(raw.a) && isFiniteNumber(raw.b) && isFiniteNumber(raw.c), 'line coefficients must be numbers');
+      expect(isBoolean(raw.isFree), '"isFree" must be a boolean');
+      expect(isOptional(raw.p1Id, isString) && isOptional(raw.p2Id, isString), '"p1Id"/"p2Id" must be ids');
+      expect(isOptional(raw.pivotPointId, isString), '"pivotPointId" must be an id');
+      expect(isOptional(raw.angle, isFiniteNumber), '"angle" must be a number');
+      expect(isOptional(raw.solutionIndex, isIndex), '"solutionIndex" must be a non-negative integer');
+      expect(isOptional(raw.conicFeature, v => isConicFeature(v, [ConicFeature.DIRECTRIX, ConicFeature.AXIS])), '"conicFeature" of a line must be DIRECTRIX or AXIS');
+      expect(isOptional(raw.animation, isAnimation), '"animation" settings are malformed');
+      break;
+    case ObjectType.SEGMENT:
+    case ObjectType.RAY:
+      expect(isFiniteNumber(raw.a) && isFiniteNumber(raw.b) && isFiniteNumber(raw.c), 'line coefficients must be numbers');
+      expect(isString(raw.p1Id) && isString(raw.p2Id), '"p1Id"/"p2Id" must be ids');
+      expect(isCoordinates(raw.start) && isCoordinates(raw.end), '"start"/"end" must be points');
+      break;
+    case ObjectType.CIRCLE:
+      expect(Object.values(CircleDefinition).includes(raw.circleDefinition as CircleDefinition), `unknown circle definition "${String(raw.circleDefinition)}"`);
+      expect(['cx', 'cy', 'radius'].every(k => isFiniteNumber(raw[k])), 'circle center and radius must be numbers');
+      expect(isCoeffs(raw.coeffs), 'circle coefficients must be numbers');
+      break;
+    case ObjectType.CONIC:
+      expect(Object.values(ConicType).includes(raw.conicType as ConicType), `unknown conic type "${String(raw.conicType)}"`);
+      expect(['cx', 'cy', 'a', 'b', 'rotation'].every(k => isFiniteNumber(raw[k])), 'conic parameters must be numbers');
+      expect(isCoeffs(raw.coeffs), 'conic coefficients must be numbers');
+      break;
+    case ObjectType.LOCUS:
+      expect(isPolylineList(raw.samples), '"samples" must be a list of polylines');
+      expect(isOptional(raw.conicFit, isCoeffs), '"conicFit" coefficients must be numbers');
+      break;
+    case ObjectType.MEASURE:
+      expect(Object.values(MeasureType).includes(raw.measureType as MeasureType), `unknown measurement "${String(raw.measureType)}"`);
+      expect(raw.value === null || isFiniteNumber(raw.value), '"value" must be a number or null');
+      expect(isFiniteNumber(raw.x) && isFiniteNumber(raw.y), 'label position must be numbers');
+      expect(isPolylineList([raw.shape]), '"shape" must be a list of points');
+      break;
+    case ObjectType.TRANSFORM:
+      expect(raw.matrix === null || (Array.isArray(raw.matrix) && raw.matrix.length === 3
+        && raw.matrix.every(row => Array.isArray(row) && row.length === 3 && row.every(isFiniteNumber))), '"matrix" must be a 3x3 matrix or null');
+      break;
+    case ObjectType.PARAMETER:
+      expect(['value', 'min', 'max'].every(k => isFiniteNumber(raw[k])), 'parameter value and range must be numbers');
+      expect(!(raw.min >= raw.max), '"min" must be less than "max"');
+      break;
+    default:
+      problems.push(`unknown object type "${String(raw.type)}"`);
+  }
+  return problems;
+};
+
+// Checks that every id an object refers to exists and has the expected type
+const validateReferences = (obj: GeoEntity, byId: Map<string, Json>): string[] => {
+  const problems: string[] = [];
+  const check = (field: string, refId: string | undefined, expected?: ObjectType) => {
+    if (refId === undefined) return;
+    const target = byId.get(refId);
+    if (refId === obj.id) problems.push(`${field} refers to the object itself`);
+    else if (!target) problems.push(`${field} refers to missing object "${refId}"`);
+    // Segments and rays stand in for lines, circles for conics
+    else if (expected && objectKind(target.type as ObjectType) !== expected) problems.push(`${field} must refer to a ${expected.toLowerCase()}, found "${String(target.name)}"`);
+  };
+
+  obj.dependencies?.forEach(d => check('dependency', d));
+  if ((obj.type === ObjectType.POINT || obj.type === ObjectType.LINE) && obj.conicFeature) {
+    if (obj.dependencies?.length !== 1) problems.push('a conic feature must depend on exactly one conic');
+    else check('dependency', obj.dependencies[0], ObjectType.CONIC);
+  }
+  if (obj.type === ObjectType.POINT && obj.harmonicConjugate) {
+    if (obj.dependencies?.length !== 3) problems.push('a harmonic conjugate must depend on exactly three points');
+    else obj.dependencies.forEach(d => check('dependency', d, ObjectType.POINT));
+  }
+  if (obj.transformImage) {
+    if (obj.dependencies?.length !== 2) problems.push('an image must depend on a transformation and its preimage');
+    else check('transformation', obj.dependencies[0], ObjectType.TRANSFORM);
+  } else if (obj.type === ObjectType.TRANSFORM) {
+    if (obj.dependencies?.length !== 8) problems.push('a projective transformation must depend on exactly eight points');
+    else obj.dependencies.forEach(d => check('dependency', d, ObjectType.POINT));
+  } else if (obj.type === ObjectType.LOCUS) {
+    if (obj.dependencies?.length !== 2) problems.push('a locus must depend on a driver and a traced point');
+    else check('traced point', obj.dependencies[1], ObjectType.POINT);
+  }
+  if (obj.type === ObjectType.MEASURE) {
+    const expected = MEASURE_INPUTS[obj.measureType];
+    if (obj.dependencies?.length !== expected.length) problems.push(`a ${obj.measureType.toLowerCase()} measurement needs ${expected.length} inputs`);
+    else expected.forEach((type, i) => check('input', obj.dependencies![i], type));
+  }
+  if (obj.type === ObjectType.POINT) {
+    check('onLineId', obj.onLineId, ObjectType.LINE);
+    check('onConicId', obj.onConicId, ObjectType.CONIC);
+  } else if (obj.type === ObjectType.LINE) {
+    check('p1Id', obj.p1Id, ObjectType.POINT);
+    check('p2Id', obj.p2Id, ObjectType.POINT);
+    check('pivotPointId', obj.pivotPointId, ObjectType.POINT);
+  } else if (obj.type === ObjectType.SEGMENT || obj.type === ObjectType.RAY) {
+    check('p1Id', obj.p1Id, ObjectType.POINT);
+    check('p2Id', obj.p2Id, ObjectType.POINT);
+  } else if (obj.type === ObjectType.CIRCLE) {
+    const count = CIRCLE_INPUTS[obj.circleDefinition];
+    if (obj.dependencies?.length !== count) problems.push(`this circle must depend on exactly ${count} point${count > 1 ? 's' : ''}`);
+    else obj.dependencies.forEach(d => check('dependency', d, ObjectType.POINT));
+  }
+  return problems;
+};
+
+// Validates a list of raw objects, reporting problems to `issues`. `known` holds entries that the
+// objects may refer to besides each other (the inputs of a custom tool).
+const validateObjects = (list: unknown[], known: Map<string, Json>, issues: DocumentIssue[]): GeoEntity[] => {
+  const start = issues.length;
+  const objects: GeoEntity[] = [];
+  // All entries with an id, including malformed ones, so references to them are not reported as missing
+  const byId = new Map(known);
+  list.forEach((item, index) => {
+    if (!isObject(item) || !isString(item.id) || item.id === '') {
+      issues.push({ message: `Object #${index + 1} has no id` });
+      return;
+    }
+    const objectName = isString(item.name) ? item.name : undefined;
+    if (byId.has(item.id)) {
+      issues.push({ objectId: item.id, objectName, message: 'duplicate id' });
+      return;
+    }
+    byId.set(item.id, item);
+
+    const problems = validateObjectShape(item);
+    if (problems.length > 0) {
+      problems.forEach(message => issues.push({ objectId: item.id as string, objectName, message }));
+      return;
+    }
+    objects.push(item as unknown as GeoEntity);
+  });
+
+  objects.forEach(obj => {
+    validateReferences(obj, byId).forEach(message => issues.push({ objectId: obj.id, objectName: obj.name, message }));
+  });
+
+  if (issues.length > start) return objects;
+
+  const cycle = findCycle(objects);
+  if (cycle) {
+    const names = cycle.map(id => (byId.get(id)?.name as string) ?? id);
+    cycle.forEach(id => issues.push({ objectId: id, objectName: byId.get(id)?.name as string, message: `circular definition (${names.join(' → ')})` }));
+  }
+  return objects;
+};
+
+// Validates a list of custom tools; problems are reported with the tool name in front
+const validateMacros = (list: unknown, issues: DocumentIssue[]): MacroTool[] => {
+  if (!Array.isArray(list)) {
+    issues.push({ message: 'Missing custom tool list' });
+    return [];
+  }
+  const macros: MacroTool[] = [];
+  list.forEach((raw, index) => {
+    const label = isObject(raw) && isString(raw.name) ? `Tool "${raw.name}"` : `Tool #${index + 1}`;
+    const problems: DocumentIssue[] = [];
+    const expect = (ok: boolean, message: string) => { if (!ok) problems.push({ message }); };
+    if (!isObject(raw)) {
+      issues.push({ message: `${label}: not an object` });
+      return;
+    }
+    expect(isString(raw.id) && raw.id !== '', 'missing id');
+    expect(isString(raw.name) && raw.name.trim() !== '', 'missing name');
+    const inputTypes = raw.inputTypes;
+    const inputIds = raw.inputIds;
+    const shapeOk = Array.isArray(inputTypes) && inputTypes.length > 0 && inputTypes.every(t => MACRO_INPUT_KINDS.includes(t as ObjectType))
+      && isStringArray(inputIds) && inputIds.length === inputTypes.length && Array.isArray(raw.objects) && isStringArray(raw.outputIds);
+    expect(shapeOk, 'inputs, objects or outputs are malformed');
+    if (problems.length === 0) {
+      // The inputs stand in for the objects they will be applied to
+      const known = new Map<string, Json>((inputIds as string[]).map((id, i) => [id, { id, type: inputTypes[i], name: `input ${i + 1}` }]));
+      const objects = validateObjects(raw.objects as unknown[], known, problems);
+      const ids = new Set(objects.map(o => o.id));
+      const outputIds = raw.outputIds as string[];
+      expect(outputIds.length > 0 && outputIds.every(id => ids.has(id)), 'outputs must be objects of the tool');
+    }
+    problems.forEach(p => issues.push({ ...p, message: `${label}: ${p.message}` }));
+    if (problems.length === 0) macros.push(raw as unknown as MacroTool);
+  });
+  return macros;
+};
+
+// Parses and validates a document. Nothing is loaded unless the whole file is valid:
+// every broken object is reported instead of rendering a partial construction.
+export const parseDocument = (text: string): DocumentLoadResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    return { document: null, issues: [{ message: `Not a valid JSON file (${(e as Error).message})` }] };
+  }
+
+  if (!isObject(raw) || raw.format !== DOCUMENT_FORMAT) {
+    return { document: null, issues: [{ message: 'Not a Conic Geometry Sketchpad document' }] };
+  }
+  if (!isIndex(raw.version) || (raw.version as number) < 1) {
+    return { document: null, issues: [{ message: 'Missing or invalid document version' }] };
+  }
+  if ((raw.version as number) > DOCUMENT_VERSION) {
+    return { document: null, issues: [{ message: `Document version ${raw.version} is newer than the supported version ${DOCUMENT_VERSION}` }] };
+  }
+
+  const issues: DocumentIssue[] = [];
+  const view = raw.view;
+  if (!isObject(view) || !isFiniteNumber(view.x) || !isFiniteNumber(view.y) || !isFiniteNumber(view.k) || view.k <= 0) {
+    issues.push({ message: 'Invalid view transform' });
+  }
+  if (!Array.isArray(raw.objects)) {
+    issues.push({ message: 'Missing object list' });
+    return { document: null, issues };
+  }
+
+  const objects = validateObjects(raw.objects, new Map(), issues);
+  if (issues.length > 0) return { document: null, issues };
+
+  // Version 1 documents have no custom tools
+  const macros = (raw.version as number) < 2 ? [] : validateMacros(raw.macros, issues);
+  if (issues.length > 0) return { document: null, issues };
+
+  return {
+    issues,
+    document: {
+      format: DOCUMENT_FORMAT,
+      version: raw.version as number,
+      view: view as unknown as ViewTransform,
+      objects,
+      macros,
+    },
+  };
+};
+
+// Parses and validates a file of custom tools (see `serializeTools`)
+export const parseTools = (text: string): ToolsLoadResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    return { macros: null, issues: [{ message: `Not a valid JSON file (${(e as Error).message})` }] };
+  }
+
+  if (!isObject(raw) || raw.format !== TOOLS_FORMAT) {
+    return { macros: null, issues: [{ message: 'Not a Conic Geometry Sketchpad tools file' }] };
+  }
+  if (!isIndex(raw.version) || (raw.version as number) < 1) {
+    return { macros: null, issues: [{ message: 'Missing or invalid tools file version' }] };
+  }
+  if ((raw.version as number) > TOOLS_VERSION) {
+    return { macros: null, issues: [{ message: `Tools file version ${raw.version} is newer than the supported version ${TOOLS_VERSION}` }] };
+  }
+
+  const issues: DocumentIssue[] = [];
+  const macros = validateMacros(raw.macros, issues);
+  return issues.length > 0 ? { macros: null, issues } : { macros, issues };
+};
@@ -0,0 +1,322 @@
+// --- Math Expressions ---
+// Numeric fields accept expressions, parsed here into a small syntax tree and evaluated without
+// ever running the text as code.
+//
+// Grammar (whitespace is ignored):
+//   expression := term (('+' | '-') term)*
+//   term       := unary (('*' | '/') unary | primary)*     a primary right after a factor
+//                                                         multiplies it: 2pi, 3(x + 1), 2sqrt(2)
+//                                                         (not a number after a number: 2 3, 1.2.3)
+//   unary      := ('+' | '-') unary | power
+//   power      := postfix ('^' unary)?                     right-associative: 2^3^2 = 2^9
+//   postfix    := primary '°'?                             degrees: 30° = 30 * pi / 180
+//   primary    := number | name | name '(' arguments ')' | '(' expression ')'
+//   arguments  := expression (',' expression)*
+//   number     := digits with an optional fraction and exponent: 2, 0.5, .5, 1.5e-3
+//
+// So -x^2 = -(x^2), 1/2pi = (1/2) * pi, and 2e3 = 2000 while 2e = 2 * e. Names are case-sensitive;
+// the constants and functions below are reserved, any other name is looked up in the variables
+// passed to the evaluator.
+
+export type ExpressionNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'name'; name: string }
+  | { kind: 'negate'; operand: ExpressionNode }
+  | { kind: 'binary'; op: '+' | '-' | '*' | '/' | '^'; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+// `error` is null exactly when the text parsed / evaluated
+export interface ParseResult {
+  node: ExpressionNode | null;
+  error: string | null;
+}
+
+export interface EvaluationResult {
+  value: number | null;
+  error: string | null;
+}
+
+export const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  'π': Math.PI,
+  tau: 2 * Math.PI,
+  e: Math.E,
+  phi: (1 + Math.sqrt(5)) / 2,
+  deg: Math.PI / 180,
+};
+
+// Functions with their accepted number of arguments (max Infinity: any number from min on)
+export const FUNCTIONS: Record<string, { min: number; max: number; fn: (...args: number[]) => number }> = {
+  sqrt: { min: 1, max: 1, fn: Math.sqrt },
+  cbrt: { min: 1, max: 1, fn: Math.cbrt },
+  abs: { min: 1, max: 1, fn: Math.abs },
+  sign: { min: 1, max: 1, fn: Math.sign },
+  floor: { min: 1, max: 1, fn: Math.floor },
+  ceil: { min: 1, max: 1, fn: Math.ceil },
+  round: { min: 1, max: 1, fn: Math.round },
+  exp: { min: 1, max: 1, fn: Math.exp },
+  ln: { min: 1, max: 1, fn: Math.log },
+  // Base 10, or the base given as the second argument
+  log: { min: 1, max: 2, fn: (x, base) => (base === undefined ? Math.log10(x) : Math.log(x) / Math.log(base)) },
+  log2: { min: 1, max: 1, fn: Math.log2 },
+  sin: { min: 1, max: 1, fn: Math.sin },
+  cos: { min: 1, max: 1, fn: Math.cos },
+  tan: { min: 1, max: 1, fn: Math.tan },
+  cot: { min: 1, max: 1, fn: x => 1 / Math.tan(x) },
+  sec: { min: 1, max: 1, fn: x => 1 / Math.cos(x) },
+  csc: { min: 1, max: 1, fn: x => 1 / Math.sin(x) },
+  asin: { min: 1, max: 1, fn: Math.asin },
+  acos: { min: 1, max: 1, fn: Math.acos },
+  atan: { min: 1, max: 1, fn: Math.atan },
+  atan2: { min: 2, max: 2, fn: Math.atan2 },
+  sinh: { min: 1, max: 1, fn: Math.sinh },
+  cosh: { min: 1, max: 1, fn: Math.cosh },
+  tanh: { min: 1, max: 1, fn: Math.tanh },
+  asinh: { min: 1, max: 1, fn: Math.asinh },
+  acosh: { min: 1, max: 1, fn: Math.acosh },
+  atanh: { min: 1, max: 1, fn: Math.atanh },
+  min: { min: 1, max: Infinity, fn: Math.min },
+  max: { min: 1, max: Infinity, fn: Math.max },
+  hypot: { min: 1, max: Infinity, fn: Math.hypot },
+  pow: { min: 2, max: 2, fn: Math.pow },
+  // Remainder with the sign of the divisor, so mod(-1, 3) = 2
+  mod: { min: 2, max: 2, fn: (a, b) => ((a % b) + b) % b },
+};
+
+// Own entries only, so names such as "constructor" are not found on the prototype
+const has = (table: object, name: string) => Object.prototype.hasOwnProperty.call(table, name);
+
+// Whether `name` can be used as a variable: a plain name that is not a constant or function
+export const isVariableName = (name: string) =>
+  /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !has(CONSTANTS, name) && !has(FUNCTIONS, name);
+
+// --- Tokenizer ---
+type Token =
+  | { kind: 'number'; value: number; text: string; pos: number }
+  | { kind: 'name'; name: string; pos: number }
+  | { kind: 'symbol'; symbol: string; pos: number };
+
+const NUMBER = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+const NAME = /^[A-Za-z_π][A-Za-z0-9_]*/;
+const SYMBOLS = '+-*/^(),°';
+
+const tokenize = (text: string): { tokens: Token[]; error: string | null } => {
+  const tokens: Token[] = [];
+  let pos = 0;
+  while (pos < text.length) {
+    const rest = text.slice(pos);
+    const space = rest.match(/^\s+/);
+    const number = rest.match(NUMBER);
+    const name = rest.match(NAME);
+    if (space) {
+      pos += space[0].length;
+    } else if (number) {
+      tokens.push({ kind: 'number', value: parseFloat(number[0]), text: number[0], pos });
+      pos += number[0].length;
+    } else if (name) {
+      tokens.push({ kind: 'name', name: name[0], pos });
+      pos += name[0].length;
+    } else if (SYMBOLS.includes(rest[0])) {
+      // '**' is accepted as a power, like in code
+      const symbol = rest.startsWith('**') ? '^' : rest[0];
+      tokens.push({ kind: 'symbol', symbol, pos });
+      pos += rest.startsWith('**') ? 2 : 1;
+    } else {
+      return { tokens, error: `Unexpected character "${rest[0]}" at position ${pos + 1}` };
+    }
+  }
+  return { tokens, error: null };
+};
+
+// --- Parser ---
+// Recursive descent over the grammar above. Every rule returns null after recording the first
+// error, which the callers pass on.
+export const parseExpression = (text: string): ParseResult => {
+  const { tokens, error: tokenError } = tokenize(text);
+  if (tokenError) return { node: null, error: tokenError };
+  if (tokens.length === 0) return { node: null, error: 'Empty expression' };
+
+  let index = 0;
+  let error: string | null = null;
+  const fail = (message: string) => {
+    if (!error) error = message;
+    return null;
+  };
+  const peek = () => tokens[index];
+  const isSymbol = (symbol: string) => {
+    const token = peek();
+    return token?.kind === 'symbol' && token.symbol === symbol;
+  };
+  const describe = (token: Token | undefined) => {
+    if (!token) return 'end of expression';
+    const text = token.kind === 'number' ? token.text : token.kind === 'name' ? token.name : token.symbol;
+    return `"${text}" at position ${token.pos + 1}`;
+  };
+
+  const parseArguments = (name: string, pos: number): ExpressionNode | null => {
+    const args: ExpressionNode[] = [];
+    index++; // '('
+    if (!isSymbol(')')) {
+      for (;;) {
+        const arg = parseSum();
+        if (!arg) return null;
+        args.push(arg);
+        if (!isSymbol(',')) break;
+        index++;
+      }
+    }
+    if (!isSymbol(')')) return fail(`Expected "," or ")" in ${name}(...) but found ${describe(peek())}`);
+    index++;
+    const spec = FUNCTIONS[name];
+    if (args.length < spec.min || args.length > spec.max) {
+      const count = spec.min === spec.max ? `${spec.min}` : spec.max === Infinity ? `at least ${spec.min}` : `${spec.min} or ${spec.max}`;
+      return fail(`${name} takes ${count} argument${spec.min === 1 && spec.max === 1 ? '' : 's'}, got ${args.length} (at position ${pos + 1})`);
+    }
+    return { kind: 'call', name, args };
+  };
+
+  const parsePrimary = (): ExpressionNode | null => {
+    const token = peek();
+    if (!token) return fail('Unexpected end of expression');
+    if (token.kind === 'number') {
+      index++;
+      return { kind: 'number', value: token.value };
+    }
+    if (token.kind === 'name') {
+      index++;
+      if (has(FUNCTIONS, token.name)) {
+        if (!isSymbol('(')) return fail(`Expected "(" after ${token.name}`);
+        return parseArguments(token.name, token.pos);
+      }
+      return { kind: 'name', name: token.name };
+    }
+    if (token.symbol === '(') {
+      index++;
+      const inner = parseSum();
+      if (!inner) return null;
+      if (!isSymbol(')')) return fail(`Missing ")" for "(" at position ${token.pos + 1}`);
+      index++;
+      return inner;
+    }
+    return fail(`Unexpected ${describe(token)}`);
+  };
+
+  const parsePostfix = (): ExpressionNode | null => {
+    const primary = parsePrimary();
+    if (!primary || !isSymbol('°')) return primary;
+    index++;
+    return { kind: 'binary', op: '*', left: primary, right: { kind: 'name', name: 'deg' } };
+  };
+
+  const parsePower = (): ExpressionNode | null => {
+    const base = parsePostfix();
+    if (!base || !isSymbol('^')) return base;
+    index++;
+    const exponent = parseUnary();
+    return exponent && { kind: 'binary', op: '^', left: base, right: exponent };
+  };
+
+  const parseUnary = (): ExpressionNode | null => {
+    if (isSymbol('-') || isSymbol('+')) {
+      const negate = isSymbol('-');
+      index++;
+      const operand = parseUnary();
+      if (!operand) return null;
+      return negate ? { kind: 'negate', operand } : operand;
+    }
+    return parsePower();
+  };
+
+  // Tokens that begin a primary, for implicit multiplication
+  const startsPrimary = () => {
+    const token = peek();
+    return !!token && (token.kind !== 'symbol' || token.symbol === '(');
+  };
+
+  const parseProduct = (): ExpressionNode | null => {
+    let left = parseUnary();
+    while (left) {
+      if (isSymbol('*') || isSymbol('/')) {
+        const op = (peek() as { symbol: '*' | '/' }).symbol;
+        index++;
+        const right = parseUnary();
+        left = right && { kind: 'binary', op, left, right };
+      } else if (startsPrimary()) {
+        // Two numbers in a row are a typo (1.2.3 reads as 1.2 and .3), not a product
+        if (peek().kind === 'number' && tokens[index - 1]?.kind === 'number') return fail(`Unexpected number ${describe(peek())}`);
+        const right = parsePower();
+        left = right && { kind: 'binary', op: '*', left, right };
+      } else {
+        break;
+      }
+    }
+    return left;
+  };
+
+  const parseSum = (): ExpressionNode | null => {
+    let left = parseProduct();
+    while (left && (isSymbol('+') || isSymbol('-'))) {
+      const op = (peek() as { symbol: '+' | '-' }).symbol;
+      index++;
+      const right = parseProduct();
+      left = right && { kind: 'binary', op, left, right };
+    }
+    return left;
+  };
+
+  const node = parseSum();
+  if (node && index < tokens.length) fail(`Unexpected ${describe(peek())}`);
+  return error ? { node: null, error } : { node, error: null };
+};
+
+// The variables an expression refers to (names other than constants), without repetitions
+export const expressionNames = (node: ExpressionNode): string[] => {
+  const names = new Set<string>();
+  const visit = (n: ExpressionNode) => {
+    if (n.kind === 'name' && !has(CONSTANTS, n.name)) names.add(n.name);
+    else if (n.kind === 'negate') visit(n.operand);
+    else if (n.kind === 'binary') { visit(n.left); visit(n.right); }
+    else if (n.kind === 'call') n.args.forEach(visit);
+  };
+  visit(node);
+  return Array.from(names);
+};
+
+// --- Evaluator ---
+// Unknown names and results that are not finite numbers (1/0, sqrt(-1)) are errors
+export const evaluateNode = (node: ExpressionNode, variables: Record<string, number> = {}): EvaluationResult => {
+  let error: string | null = null;
+  const evaluate = (n: ExpressionNode): number => {
+    switch (n.kind) {
+      case 'number': return n.value;
+      case 'name':
+        if (has(CONSTANTS, n.name)) return CONSTANTS[n.name];
+        if (has(variables, n.name)) return variables[n.name];
+        if (!error) error = `Unknown name "${n.name}"`;
+        return NaN;
+      case 'negate': return -evaluate(n.operand);
+      case 'call': return FUNCTIONS[n.name].fn(...n.args.map(evaluate));
+      case 'binary': {
+        const a = evaluate(n.left);
+        const b = evaluate(n.right);
+        switch (n.op) {
+          case '+': return a + b;
+          case '-': return a - b;
+          case '*': return a * b;
+          case '/': return a / b;
+          case '^': return Math.pow(a, b);
+        }
+      }
+    }
+    return NaN;
+  };
+  const value = evaluate(node);
+  if (error) return { value: null, error };
+  if (!isFinite(value)) return { value: null, error: isNaN(value) ? 'The result is undefined' : 'The result is infinite' };
+  return { value, error: null };
+};
+
+export const evaluateExpression = (text: string, variables: Record<string, number> = {}): EvaluationResult => {
+  const { node, error } = parseExpression(text);
+  return node ? evaluateNode(node, variables) : { value: null, error };
+};
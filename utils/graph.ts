@@ -0,0 +1,111 @@
+import { GeoEntity, ObjectType } from '../types';
+
+// --- Dependency Graph ---
+// Objects reference the objects they are defined by through `dependencies`,
+// `onLineId` / `onConicId` (constrained points), `pivotPointId` and `p1Id`/`p2Id` (lines, segments and rays).
+// Edges point from a parent (definition input) to its children (dependent objects).
+
+export interface DependencyGraph {
+  parents: Map<string, string[]>;
+  children: Map<string, string[]>;
+}
+
+// IDs of the objects `obj` is directly defined by (may include dangling ids)
+export const getReferences = (obj: GeoEntity): string[] => {
+  const refs = [...(obj.dependencies ?? [])];
+  if (obj.type === ObjectType.POINT) {
+    if (obj.onLineId) refs.push(obj.onLineId);
+    if (obj.onConicId) refs.push(obj.onConicId);
+  } else if (obj.type === ObjectType.LINE) {
+    if (obj.pivotPointId) refs.push(obj.pivotPointId);
+    if (obj.p1Id) refs.push(obj.p1Id);
+    if (obj.p2Id) refs.push(obj.p2Id);
+  } else if (obj.type === ObjectType.SEGMENT || obj.type === ObjectType.RAY) {
+    refs.push(obj.p1Id, obj.p2Id);
+  }
+  return Array.from(new Set(refs));
+};
+
+// Copy of `obj` whose references are replaced through `idMap` (ids not in the map are kept)
+export const remapReferences = (obj: GeoEntity, idMap: Map<string, string>): GeoEntity => {
+  const map = (id: string | undefined) => (id === undefined ? undefined : idMap.get(id) ?? id);
+  const copy = { ...obj } as GeoEntity;
+  if (obj.dependencies) copy.dependencies = obj.dependencies.map(map);
+  if (copy.type === ObjectType.POINT) {
+    if (copy.onLineId) copy.onLineId = map(copy.onLineId);
+    if (copy.onConicId) copy.onConicId = map(copy.onConicId);
+  } else if (copy.type === ObjectType.LINE) {
+    if (copy.pivotPointId) copy.pivotPointId = map(copy.pivotPointId);
+    if (copy.p1Id) copy.p1Id = map(copy.p1Id);
+    if (copy.p2Id) copy.p2Id = map(copy.p2Id);
+  } else if (copy.type === ObjectType.SEGMENT || copy.type === ObjectType.RAY) {
+    copy.p1Id = map(copy.p1Id);
+    copy.p2Id = map(copy.p2Id);
+  }
+  return copy;
+};
+
+// References to objects that do not exist are ignored
+export const buildDependencyGraph = (entities: GeoEntity[]): DependencyGraph => {
+  const ids = new Set(entities.map(e => e.id));
+  const parents = new Map<string, string[]>();
+  const children = new Map<string, string[]>();
+  entities.forEach(e => children.set(e.id, []));
+
+  entities.forEach(e => {
+    const refs = getReferences(e).filter(r => ids.has(r));
+    parents.set(e.id, refs);
+    refs.forEach(r => children.get(r)!.push(e.id));
+  });
+
+  return { parents, children };
+};
+
+// Orders entities so that every object comes after everything it depends on.
+// Independent objects keep their relative array order. If the graph contains a cycle,
+// `cycle` lists the ids along it; every object still appears exactly once.
+export const topologicalOrder = (entities: GeoEntity[], graph: DependencyGraph = buildDependencyGraph(entities)) => {
+  const byId = new Map(entities.map(e => [e.id, e]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const order: GeoEntity[] = [];
+  let cycle: string[] | null = null;
+
+  const visit = (id: string, path: string[]) => {
+    const s = state.get(id);
+    if (s === 'done') return;
+    if (s === 'visiting') {
+      if (!cycle) cycle = path.slice(path.indexOf(id));
+      return;
+    }
+    state.set(id, 'visiting');
+    path.push(id);
+    graph.parents.get(id)?.forEach(p => visit(p, path));
+    path.pop();
+    state.set(id, 'done');
+    order.push(byId.get(id)!);
+  };
+
+  entities.forEach(e => visit(e.id, []));
+  return { order, cycle: cycle as string[] | null };
+};
+
+// Returns the ids along a circular definition, or null if the construction is acyclic
+export const findCycle = (entities: GeoEntity[]): string[] | null => topologicalOrder(entities).cycle;
+
+const collect = (edges: Map<string, string[]>, ids: Iterable<string>): Set<string> => {
+  const result = new Set<string>();
+  const stack = Array.from(ids);
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (result.has(id)) continue;
+    result.add(id);
+    edges.get(id)?.forEach(next => stack.push(next));
+  }
+  return result;
+};
+
+// `ids` plus everything that (transitively) depends on them
+export const collectDependents = (graph: DependencyGraph, ids: Iterable<string>) => collect(graph.children, ids);
+
+// `ids` plus everything they are (transitively) defined by
+export const collectAncestors = (graph: DependencyGraph, ids: Iterable<string>) => collect(graph.parents, ids);
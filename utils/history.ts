@@ -0,0 +1,43 @@
+// --- Undo / Redo History ---
+// Snapshot based history: every undoable step stores the complete state it replaced.
+// Snapshots are immutable arrays, so sharing them between steps is cheap.
+
+export const HISTORY_LIMIT = 200;
+
+export interface HistoryState<T> {
+  past: T[];   // Oldest first, the last entry is the state before the most recent step
+  future: T[]; // Most recently undone first
+}
+
+export const createHistory = <T>(): HistoryState<T> => ({ past: [], future: [] });
+
+// Records `snapshot` as the state to return to on the next undo.
+// Any redo branch is discarded, as in every editor.
+export const recordHistory = <T>(history: HistoryState<T>, snapshot: T): HistoryState<T> => ({
+  past: [...history.past, snapshot].slice(-HISTORY_LIMIT),
+  future: [],
+});
+
+export const undoHistory = <T>(history: HistoryState<T>, current: T): { history: HistoryState<T>; value: T } | null => {
+  if (history.past.length === 0) return null;
+  const value = history.past[history.past.length - 1];
+  return {
+    value,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [current, ...history.future],
+    },
+  };
+};
+
+export const redoHistory = <T>(history: HistoryState<T>, current: T): { history: HistoryState<T>; value: T } | null => {
+  if (history.future.length === 0) return null;
+  const [value, ...future] = history.future;
+  return {
+    value,
+    history: {
+      past: [...history.past, current].slice(-HISTORY_LIMIT),
+      future,
+    },
+  };
+};
@@ -0,0 +1,113 @@
+import { GeoEntity, MacroTool, ObjectType } from '../types';
+import { buildDependencyGraph, remapReferences, topologicalOrder } from './graph';
+import { objectKind } from './objects';
+
+// --- Custom Tools (Macros) ---
+// A macro is recorded from an existing construction: the chosen outputs together with everything
+// between them and the chosen inputs. Applying it to new inputs of the same kinds copies those
+// objects, so the results stay defined by the new inputs like any other construction.
+
+// What a macro input can be (segments and rays count as lines, circles as conics)
+export const MACRO_INPUT_KINDS = [ObjectType.POINT, ObjectType.LINE, ObjectType.CONIC];
+
+export interface MacroRecordResult {
+  macro: MacroTool | null;
+  error: string | null;
+}
+
+const fail = (error: string): MacroRecordResult => ({ macro: null, error });
+
+// Records the construction of `outputIds` from `inputIds`. Fails if an output needs something
+// that the inputs do not determine (a free object outside them), or if an input is not used.
+export const recordMacro = (name: string, inputIds: string[], outputIds: string[], objects: GeoEntity[]): MacroRecordResult => {
+  const byId = new Map(objects.map(o => [o.id, o]));
+  const inputs = inputIds.map(id => byId.get(id)).filter((o): o is GeoEntity => !!o);
+  const outputs = outputIds.map(id => byId.get(id)).filter((o): o is GeoEntity => !!o);
+
+  if (!name.trim()) return fail('Give the tool a name');
+  if (inputs.length === 0) return fail('Pick at least one input');
+  if (outputs.length === 0) return fail('Pick at least one output');
+  const wrongInput = inputs.find(o => !MACRO_INPUT_KINDS.includes(objectKind(o.type)));
+  if (wrongInput) return fail(`"${wrongInput.name}" cannot be an input (only points, lines and conics)`);
+  const inputSet = new Set(inputs.map(o => o.id));
+  const reused = outputs.find(o => inputSet.has(o.id));
+  if (reused) return fail(`"${reused.name}" cannot be both an input and an output`);
+
+  // Walk up from the outputs, stopping at the inputs
+  const graph = buildDependencyGraph(objects);
+  const body = new Set<string>();
+  const usedInputs = new Set<string>();
+  const stack = outputs.map(o => o.id);
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (inputSet.has(id)) {
+      usedInputs.add(id);
+      continue;
+    }
+    if (body.has(id)) continue;
+    body.add(id);
+    graph.parents.get(id)?.forEach(p => stack.push(p));
+  }
+
+  const free = Array.from(body).map(id => byId.get(id)!).find(o => graph.parents.get(o.id)!.length === 0);
+  if (free) return fail(`"${free.name}" is not determined by the inputs; pick it as an input too`);
+  const unused = inputs.find(o => !usedInputs.has(o.id));
+  if (unused) return fail(`"${unused.name}" is not used by the outputs`);
+
+  const recorded = topologicalOrder(objects, graph).order
+    .filter(o => body.has(o.id))
+    // Animations and branch tracking belong to the recorded construction, not to the tool
+    .map(o => {
+      const copy = { ...o };
+      if (copy.type === ObjectType.POINT) delete copy.branchTracked;
+      if ((copy.type === ObjectType.POINT || copy.type === ObjectType.LINE) && copy.animation) {
+        copy.animation = { ...copy.animation, playing: false };
+      }
+      return copy;
+    });
+
+  return {
+    error: null,
+    macro: {
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      inputTypes: inputs.map(o => objectKind(o.type)),
+      inputIds: inputs.map(o => o.id),
+      objects: recorded,
+      outputIds: outputs.map(o => o.id),
+    },
+  };
+};
+
+// Whether `obj` can be the next input after `picked`
+export const macroAccepts = (macro: MacroTool, picked: GeoEntity[], obj: GeoEntity) =>
+  picked.length < macro.inputTypes.length
+  && !picked.some(p => p.id === obj.id)
+  && objectKind(obj.type) === macro.inputTypes[picked.length];
+
+// Copies of the macro's objects built on `inputs` (in `inputTypes` order), ready to be added.
+// Outputs are named after the tool and the inputs, e.g. "Tangents1(P, c)"; the objects in between
+// keep their recorded name with the new inputs instead of the old ones, e.g. "Polar(P, c)".
+export const applyMacro = (macro: MacroTool, inputs: GeoEntity[]): GeoEntity[] => {
+  const idMap = new Map<string, string>();
+  macro.inputIds.forEach((id, i) => idMap.set(id, inputs[i].id));
+  macro.objects.forEach(o => idMap.set(o.id, crypto.randomUUID()));
+
+  const args = inputs.map(o => o.name).join(', ');
+  const outputs = macro.outputIds.length;
+  return macro.objects.map(o => {
+    const copy = { ...remapReferences(o, idMap), id: idMap.get(o.id)! } as GeoEntity;
+    const k = macro.outputIds.indexOf(o.id);
+    copy.name = k !== -1 ? `${macro.name}${outputs > 1 ? k + 1 : ''}(${args})` : `${o.name.replace(/\(.*\)$/, '')}(${args})`;
+    return copy;
+  });
+};
+
+// "point, conic" for the tooltip / progress of a macro
+export const describeMacroInputs = (macro: MacroTool) => macro.inputTypes.map(t => t.toLowerCase()).join(', ');
+
+// `current` with `added` appended; a tool with the same id as an existing one replaces it
+export const mergeMacros = (current: MacroTool[], added: MacroTool[]) => {
+  const byId = new Map(added.map(m => [m.id, m]));
+  return [...current.map(m => byId.get(m.id) ?? m), ...added.filter(m => !current.some(c => c.id === m.id))];
+};
@@ -3,35 +3,6 @@
 
 import { GeoConic, Coordinates, GeoPoint, ConicType } from '../types';
 
-// --- Math Expression Evaluator ---
-export const evaluateMathExpression = (expr: string): number | null => {
-  if (!expr) return null;
-  try {
-    let processed = expr.toLowerCase().trim();
-    
-    // Basic safety check: only allow numbers, operators, and specific math functions
-    // We allow: digits . + - * / ^ ( ) and 'sqrt', 'pi', 'e'
-    const allowedChars = /^[0-9\.\+\-\*\/\^\(\)\s|sqrt|pi|e|sin|cos|tan]+$/;
-    if (!allowedChars.test(processed)) return null;
-
-    processed = processed
-      .replace(/\^/g, '**')
-      .replace(/sqrt/g, 'Math.sqrt')
-      .replace(/pi/g, 'Math.PI')
-      .replace(/\be\b/g, 'Math.E')
-      .replace(/sin/g, 'Math.sin')
-      .replace(/cos/g, 'Math.cos')
-      .replace(/tan/g, 'Math.tan');
-
-    // eslint-disable-next-line no-new-func
-    const fn = new Function(`return (${processed})`);
-    const val = fn();
-    return typeof val === 'number' && isFinite(val) ? val : null;
-  } catch (e) {
-    return null;
-  }
-};
-
 // --- Matrix Helper ---
 export const multiplyMatrixVector = (m: number[][], v: number[]) => {
   return [
@@ -41,7 +12,39 @@ export const multiplyMatrixVector = (m: number[][], v: number[]) => {
   ];
 };
 
-export const getConicMatrix = (conic: GeoConic) => {
+export const determinant3 = (m: number[][]) =>
+  m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+  m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+  m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+
+// Adjugate (transposed cofactor matrix): adj(M) * M = det(M) * I
+export const adjugate3 = (m: number[][]) => [
+  [
+    m[1][1] * m[2][2] - m[1][2] * m[2][1],
+    m[0][2] * m[2][1] - m[0][1] * m[2][2],
+    m[0][1] * m[1][2] - m[0][2] * m[1][1],
+  ],
+  [
+    m[1][2] * m[2][0] - m[1][0] * m[2][2],
+    m[0][0] * m[2][2] - m[0][2] * m[2][0],
+    m[0][2] * m[1][0] - m[0][0] * m[1][2],
+  ],
+  [
+    m[1][0] * m[2][1] - m[1][1] * m[2][0],
+    m[0][1] * m[2][0] - m[0][0] * m[2][1],
+    m[0][0] * m[1][1] - m[0][1] * m[1][0],
+  ],
+];
+
+const maxAbs = (m: number[][]) => Math.max(...m.map(row => Math.max(...row.map(Math.abs))));
+
+// Scales a matrix so its largest entry is 1 in magnitude (keeps tolerances meaningful)
+const normalizeMatrix = (m: number[][]) => {
+  const s = maxAbs(m);
+  return s > 0 ? m.map(row => row.map(v => v / s)) : m;
+};
+
+export const getConicMatrix = (conic: Pick<GeoConic, 'coeffs'>) => {
   const { A, B, C, D, E, F } = conic.coeffs;
   return [
     [A, B / 2, D / 2],
@@ -50,21 +53,167 @@ export const getConicMatrix = (conic: GeoConic) => {
   ];
 };
 
+// --- Homogeneous Coordinates ---
+// A point (x, y) is the vector [x, y, 1]; a point at infinity in direction (dx, dy) is [dx, dy, 0].
+// A line ax + by + c = 0 is the vector [a, b, c]; [0, 0, 1] is the line at infinity.
+
+export const crossProduct = (u: number[], v: number[]) => [
+  u[1] * v[2] - u[2] * v[1],
+  u[2] * v[0] - u[0] * v[2],
+  u[0] * v[1] - u[1] * v[0],
+];
+
+export const isAtInfinity = (p: { w?: number }) => p.w === 0;
+
+export const toHomogeneous = (p: { x: number; y: number; w?: number }) => [p.x, p.y, p.w === 0 ? 0 : 1];
+
+// Converts a homogeneous vector back to a point. A negligible weight gives a point at infinity
+// (w = 0) with a unit direction; the zero vector (undefined point) gives null.
+export const fromHomogeneous = (v: number[]): { x: number; y: number; w?: number } | null => {
+  const [x, y, w] = v;
+  const len = Math.hypot(x, y);
+  if (len < 1e-12 && Math.abs(w) < 1e-12) return null;
+  if (Math.abs(w) <= 1e-9 * len) {
+    // Canonical direction sign so that the same point at infinity always has the same representation
+    const sign = x < -1e-12 || (Math.abs(x) <= 1e-12 && y < 0) ? -1 : 1;
+    return { x: sign * x / len, y: sign * y / len, w: 0 };
+  }
+  return { x: x / w, y: y / w };
+};
+
+export const isLineAtInfinity = (line: { a: number; b: number; c: number }) =>
+  Math.hypot(line.a, line.b) <= 1e-9 * Math.abs(line.c);
+
+// --- Cross-Ratio ---
+const unitVector = (v: number[]) => {
+  const n = Math.hypot(...v);
+  return n === 0 ? v : v.map(c => c / n);
+};
+
+const dot3 = (u: number[], v: number[]) => u[0] * v[0] + u[1] * v[1] + u[2] * v[2];
+
+// Cross-ratio (A, B; C, D) = [AC][BD] / ([AD][BC]) of four collinear points, or of four concurrent
+// lines, given as homogeneous vectors. [PQ] is (P x Q) . r for the unit vector r of the common line
+// (common point), a signed length that scales with P and Q, so points at infinity need no special case.
+// Returns Infinity when [AD][BC] vanishes, and null when the inputs are not collinear (concurrent)
+// or the value is undetermined.
+export const crossRatio = (vectors: number[][]) => {
+  const [a, b, c, d] = vectors.map(unitVector);
+  const joins = [[a, b], [a, c], [a, d], [b, c], [b, d], [c, d]].map(([u, v]) => crossProduct(u, v));
+  const common = joins.reduce((best, v) => (Math.hypot(...v) > Math.hypot(...best) ? v : best));
+  if (Math.hypot(...common) < 1e-9) return null;
+  const r = unitVector(common);
+  if ([a, b, c, d].some(v => Math.abs(dot3(v, r)) > 1e-8)) return null;
+
+  const bracket = (u: number[], v: number[]) => dot3(crossProduct(u, v), r);
+  const num = bracket(a, c) * bracket(b, d);
+  const den = bracket(a, d) * bracket(b, c);
+  if (Math.abs(den) < 1e-12) return Math.abs(num) < 1e-12 ? null : Infinity;
+  return num / den;
+};
+
+// The point D with (A, B; C, D) = -1. Writing C = alpha A + beta B in homogeneous coordinates,
+// D = alpha A - beta B; the midpoint of AB gives the point at infinity of the line.
+// Returns null when A and B coincide or C is not on the line AB.
+export const harmonicConjugate = (
+  pa: { x: number; y: number; w?: number },
+  pb: { x: number; y: number; w?: number },
+  pc: { x: number; y: number; w?: number }
+) => {
+  const [A, B, C] = [pa, pb, pc].map(p => unitVector(toHomogeneous(p)));
+  const ab = crossProduct(A, B);
+  const n2 = dot3(ab, ab);
+  if (n2 < 1e-18) return null;
+  if (Math.abs(dot3(C, ab)) > 1e-8 * Math.sqrt(n2)) return null;
+  const alpha = dot3(crossProduct(C, B), ab) / n2;
+  const beta = dot3(crossProduct(A, C), ab) / n2;
+  return fromHomogeneous(A.map((v, i) => alpha * v - beta * B[i]));
+};
+
+// --- Projective Transformations ---
+const transpose3 = (m: number[][]) => m[0].map((_, j) => m.map(row => row[j]));
+
+const multiply3 = (a: number[][], b: number[][]) =>
+  a.map(row => b[0].map((_, j) => row[0] * b[0][j] + row[1] * b[1][j] + row[2] * b[2][j]));
+
+// Matrix with columns l1 p1, l2 p2, l3 p3 summing to p4: it maps the standard frame
+// (e1, e2, e3, e1 + e2 + e3) onto the four points. Null when three of them are collinear.
+const projectiveFrame = (points: number[][]) => {
+  const [p1, p2, p3, p4] = points.map(unitVector);
+  const basis = [0, 1, 2].map(i => [p1[i], p2[i], p3[i]]);
+  const det = determinant3(basis);
+  if (Math.abs(det) < 1e-9) return null;
+  const lambda = multiplyMatrixVector(adjugate3(basis), p4).map(v => v / det);
+  if (lambda.some(l => Math.abs(l) < 1e-9)) return null;
+  return basis.map(row => row.map((v, j) => v * lambda[j]));
+};
+
+// The homography H mapping four points onto four others (points act as homogeneous columns,
+// x' = H x), scaled so its largest entry is 1. Null when three points of either set are collinear.
+export const homographyFromPoints = (
+  from: { x: number; y: number; w?: number }[],
+  to: { x: number; y: number; w?: number }[]
+) => {
+  const source = projectiveFrame(from.map(toHomogeneous));
+  const target = projectiveFrame(to.map(toHomogeneous));
+  if (!source || !target) return null;
+  return normalizeMatrix(multiply3(target, adjugate3(source)));
+};
+
+// Image of a point; the third coordinate keeps its sign, so two finite images with different signs
+// lie on different sides of the image of the line at infinity
+export const transformHomogeneous = (h: number[][], p: { x: number; y: number; w?: number }) =>
+  multiplyMatrixVector(h, toHomogeneous(p));
+
+export const transformPoint = (h: number[][], p: { x: number; y: number; w?: number }) =>
+  fromHomogeneous(transformHomogeneous(h, p));
+
+// Lines map by the inverse transpose; the adjugate is the inverse up to a factor
+export const transformLine = (h: number[][], line: { a: number; b: number; c: number }) => {
+  const l = multiplyMatrixVector(transpose3(adjugate3(h)), [line.a, line.b, line.c]);
+  const scale = Math.max(...l.map(Math.abs));
+  if (scale === 0) return null;
+  const [a, b, c] = l.map(v => v / scale);
+  return { a, b, c };
+};
+
+// Conics map by G^T M G with G = H^-1 (again the adjugate, as the scale does not matter)
+export const transformConic = (h: number[][], conic: Pick<GeoConic, 'coeffs'>) => {
+  const g = adjugate3(h);
+  const m = normalizeMatrix(multiply3(multiply3(transpose3(g), getConicMatrix(conic)), g));
+  return { A: m[0][0], B: 2 * m[0][1], C: m[1][1], D: 2 * m[0][2], E: 2 * m[1][2], F: m[2][2] };
+};
+
 // --- Polar Calculation ---
 // Given a point (x0, y0) and a conic matrix M, the polar line is P^T * M * X = 0
-// P = [x0, y0, 1]
+// P = [x0, y0, w] (w = 0 for a point at infinity, whose polar is a diameter)
 // Result is vector [a, b, c] corresponding to ax + by + c = 0
-export const calculatePolarLineCoeffs = (px: number, py: number, conic: GeoConic) => {
+export const calculatePolarLineCoeffs = (px: number, py: number, conic: GeoConic, w: number = 1) => {
   const M = getConicMatrix(conic);
-  const P = [px, py, 1];
+  const P = [px, py, w];
   const L = multiplyMatrixVector(M, P);
   return { a: L[0], b: L[1], c: L[2] };
 };
 
+// --- Pole Calculation ---
+// The inverse of the polar map: the pole of a line L is P = M^-1 * L. The adjugate is used
+// instead of the inverse so singular conics still give an answer where one exists
+// (e.g. every line's pole w.r.t. a line pair is its double point). Returns null when the
+// pole is undefined (double lines, undetermined conics).
+export const calculatePoleOfLine = (line: { a: number; b: number; c: number }, conic: GeoConic) => {
+  const M = normalizeMatrix(getConicMatrix(conic));
+  const scale = Math.max(Math.abs(line.a), Math.abs(line.b), Math.abs(line.c));
+  if (scale === 0) return null;
+  const L = [line.a / scale, line.b / scale, line.c / scale];
+  return fromHomogeneous(multiplyMatrixVector(adjugate3(M), L));
+};
+
 // --- Conic Coefficients Generator ---
 // Converts standard parameters (center, axes, rotation) to General Equation
 export const updateConicCoefficients = (conic: GeoConic): GeoConic => {
   const { cx, cy, a, b, rotation, conicType } = conic;
+  // Degenerate conics have no standard parameters: their coefficients are the definition
+  if (isDegenerateConicType(conicType)) return conic;
   const cos = Math.cos(rotation);
   const sin = Math.sin(rotation);
 
@@ -117,28 +266,100 @@ export const updateConicCoefficients = (conic: GeoConic): GeoConic => {
   };
 };
 
+// --- Conic Classification ---
+// Ellipses, hyperbolas and parabolas have standard parameters; every other kind
+// (line pairs, a single point, no real points) is defined by its coefficients alone.
+export const PROPER_CONIC_TYPES = [ConicType.ELLIPSE, ConicType.HYPERBOLA, ConicType.PARABOLA];
+
+export const isDegenerateConicType = (type: ConicType) => !PROPER_CONIC_TYPES.includes(type);
+
+// Projective classification from the conic matrix M:
+// det(M) = 0 means degenerate, and then adj(M) = -p p^T for a real line pair through the
+// singular point p (+p p^T for a conjugate pair). The sign of B^2 - 4AC tells whether p is
+// finite (intersecting lines / a point) or at infinity (parallel lines).
+// M is scaled so its quadratic part has unit size, which translations leave unchanged; det(M)
+// does not change under translations either, but its rounding error grows with D, E and F, so
+// the tolerance for it does too.
+export const classifyConic = (coeffs: { A: number, B: number, C: number, D: number, E: number, F: number }) => {
+  const { A, B, C, D, E, F } = coeffs;
+  const raw = [
+    [A, B / 2, D / 2],
+    [B / 2, C, E / 2],
+    [D / 2, E / 2, F],
+  ];
+  if (maxAbs(raw) === 0) return { conicType: ConicType.EMPTY, singularPoint: null };
+  const quadratic = maxAbs([[A, B / 2], [B / 2, C]]);
+  const M = quadratic > 0 ? raw.map(row => row.map(v => v / quadratic)) : normalizeMatrix(raw);
+  const delta = M[0][1] * M[0][1] - M[0][0] * M[1][1]; // (B^2 - 4AC) / 4
+  const sign = Math.abs(delta) < 1e-9 ? 0 : Math.sign(delta);
+  const det = determinant3(M);
+  const tolerance = 1e-9 * Math.max(1, Math.abs(M[2][2]), M[0][2] * M[0][2], M[1][2] * M[1][2]);
+
+  if (Math.abs(det) >= tolerance) {
+    if (sign > 0) return { conicType: ConicType.HYPERBOLA, singularPoint: null };
+    if (sign === 0) return { conicType: ConicType.PARABOLA, singularPoint: null };
+    // An ellipse has real points only if det(M) and A + C have opposite signs
+    return { conicType: det * (M[0][0] + M[1][1]) < 0 ? ConicType.ELLIPSE : ConicType.EMPTY, singularPoint: null };
+  }
+
+  const adj = adjugate3(M);
+  if (maxAbs(adj) < tolerance) return { conicType: ConicType.DOUBLE_LINE, singularPoint: null };
+
+  let i = 0;
+  for (let k = 1; k < 3; k++) if (Math.abs(adj[k][k]) > Math.abs(adj[i][i])) i = k;
+  const singularPoint = fromHomogeneous([adj[0][i], adj[1][i], adj[2][i]]);
+
+  if (sign > 0) return { conicType: ConicType.LINE_PAIR, singularPoint };
+  if (sign < 0) return { conicType: ConicType.POINT, singularPoint };
+  return { conicType: adj[i][i] < 0 ? ConicType.PARALLEL_LINES : ConicType.EMPTY, singularPoint };
+};
+
 // --- Conic Standard Params Generator ---
 // Converts General Equation Coeffs to Standard parameters
 export const generalToStandardConic = (coeffs: { A: number, B: number, C: number, D: number, E: number, F: number }) => {
   const { A, B, C, D, E, F } = coeffs;
+  const { conicType: kind, singularPoint } = classifyConic(coeffs);
+
+  if (isDegenerateConicType(kind)) {
+      // Drawn from the coefficients; the center is the singular point (or the ellipse center) when finite
+      const center = singularPoint && singularPoint.w !== 0 ? { cx: singularPoint.x, cy: singularPoint.y } : {};
+      if (kind === ConicType.EMPTY && !singularPoint && B * B - 4 * A * C < 0) {
+          const det = 4 * A * C - B * B;
+          Object.assign(center, { cx: (B * E - 2 * C * D) / det, cy: (B * D - 2 * A * E) / det });
+      }
+      return { conicType: kind, ...center, a: 0, b: 0, rotation: 0 };
+  }
+
+  let type = kind;
   
-  // Discriminant B^2 - 4AC
-  // < 0 Ellipse
-  // > 0 Hyperbola
-  // = 0 Parabola
-  const delta = B * B - 4 * A * C;
-  let type = ConicType.ELLIPSE;
-  
-  if (Math.abs(delta) < 1e-9) {
-      type = ConicType.PARABOLA;
-      // Parabola conversion from general form to vertex/focus is complex and specific.
-      // For this implementation, we return partial info, preserving type, but likely 
-      // relying on the user to tweak params or reset if they break it too much via coeffs.
-      return { conicType: type }; 
-  } else if (delta > 0) {
-      type = ConicType.HYPERBOLA;
-  } else {
-      type = ConicType.ELLIPSE;
+  if (type === ConicType.PARABOLA) {
+      // Scale so the quadratic part is a perfect square (n . X)^2 with n = (-sin, cos),
+      // the unit normal of the axis: A = sin^2, B = -2 sin cos, C = cos^2
+      const k = A + C;
+      const [Ak, Bk, Ck, Dk, Ek, Fk] = [A / k, B / k, C / k, D / k, E / k, F / k];
+      let theta = 0.5 * Math.atan2(-Bk, Ck - Ak);
+      let ct = Math.cos(theta);
+      let st = Math.sin(theta);
+
+      // In axis coordinates (u along the axis, v across it): v^2 + Du u + Dv v + F = 0
+      const Du = Dk * ct + Ek * st;
+      const Dv = -Dk * st + Ek * ct;
+      if (Math.abs(Du) < 1e-12) return { conicType: type };
+
+      // Complete the square: (v - v0)^2 = -Du (u - u0), i.e. y'^2 = 4ax' around the vertex (u0, v0)
+      const v0 = -Dv / 2;
+      const u0 = (Dv * Dv / 4 - Fk) / Du;
+      const cx = u0 * ct - v0 * st;
+      const cy = u0 * st + v0 * ct;
+
+      // Keep the focal parameter positive by turning the axis around
+      let a = -Du / 4;
+      if (a < 0) {
+          a = -a;
+          theta = theta > 0 ? theta - Math.PI : theta + Math.PI;
+      }
+
+      return { conicType: type, cx, cy, a, rotation: theta };
   }
 
   // 1. Find Center (cx, cy) by solving system of partial derivatives
@@ -146,7 +367,7 @@ export const generalToStandardConic = (coeffs: { A: number, B: number, C: number
   // Bx + 2Cy + E = 0
   // Matrix | 2A  B |
   //        | B  2C |
-  // Determinant = 4AC - B^2 = -delta
+  // Determinant = 4AC - B^2
   const det = 4 * A * C - B * B;
   const cx = (B * E - 2 * C * D) / det;
   const cy = (B * D - 2 * A * E) / det;
@@ -158,7 +379,7 @@ export const generalToStandardConic = (coeffs: { A: number, B: number, C: number
   // 3. Determine Rotation theta
   // tan(2theta) = B / (A - C)
   let theta = 0;
-  if (Math.abs(B) > 1e-9) {
+  if (Math.abs(B) > 1e-9 * (Math.abs(A) + Math.abs(C))) {
       theta = 0.5 * Math.atan2(B, A - C);
   }
 
@@ -178,6 +399,12 @@ export const generalToStandardConic = (coeffs: { A: number, B: number, C: number
   let a = Math.sqrt(Math.abs(num1));
   let b = Math.sqrt(Math.abs(num2));
 
+  // Standard hyperbolas open along their local x axis: turn the frame if the transverse axis is v
+  if (type === ConicType.HYPERBOLA && num1 < 0) {
+      theta += Math.PI / 2;
+      [a, b] = [b, a];
+  }
+
   return {
       conicType: type,
       cx,
@@ -188,6 +415,49 @@ export const generalToStandardConic = (coeffs: { A: number, B: number, C: number
   };
 };
 
+// --- Conic Features ---
+// Foci, vertices, directrices and axes of symmetry from the standard parameters.
+// Points and lines are listed focal-axis first; parabolas have one of each.
+// The directrices of a circle are the line at infinity. Degenerate conics have none.
+export const getConicFeatures = (conic: GeoConic) => {
+  const { cx, cy, a, b, rotation, conicType } = conic;
+  if (isDegenerateConicType(conicType)) {
+    return { eccentricity: NaN, foci: [], vertices: [], directrices: [], axes: [] };
+  }
+  const u = { x: Math.cos(rotation), y: Math.sin(rotation) };
+  const v = { x: -u.y, y: u.x };
+  // Point at offset s along d from the center
+  const along = (d: Coordinates, s: number) => ({ x: cx + s * d.x, y: cy + s * d.y });
+  // Line k * ((X - center) . d) = m, kept homogeneous so k = 0 gives the line at infinity
+  const level = (d: Coordinates, k: number, m: number) => ({ a: k * d.x, b: k * d.y, c: -k * (d.x * cx + d.y * cy) - m });
+
+  if (conicType === ConicType.PARABOLA) {
+    // y'^2 = 4ax': focus at distance a from the vertex, directrix x' = -a
+    return {
+      eccentricity: 1,
+      foci: [along(u, a)],
+      vertices: [{ x: cx, y: cy }],
+      directrices: [level(u, 1, -a)],
+      axes: [level(v, 1, 0)],
+    };
+  }
+
+  // Focal axis d with semi-axis p; the other axis e with semi-axis q
+  const swap = conicType === ConicType.ELLIPSE && Math.abs(b) > Math.abs(a);
+  const [d, e] = swap ? [v, u] : [u, v];
+  const [p, q] = swap ? [Math.abs(b), Math.abs(a)] : [Math.abs(a), Math.abs(b)];
+  const c = conicType === ConicType.ELLIPSE ? Math.sqrt(p * p - q * q) : Math.sqrt(p * p + q * q);
+
+  return {
+    eccentricity: c / p,
+    foci: [along(d, c), along(d, -c)],
+    vertices: [along(d, p), along(d, -p)],
+    // x' = +-p^2 / c
+    directrices: [level(d, c, p * p), level(d, -c, p * p)],
+    axes: [level(e, 1, 0), level(d, 1, 0)],
+  };
+};
+
 // --- Line & Point Math ---
 export const closestPointOnLine = (px: number, py: number, line: {a: number, b: number, c: number}) => {
   const { a, b, c } = line;
@@ -198,12 +468,23 @@ export const closestPointOnLine = (px: number, py: number, line: {a: number, b:
   return { x, y };
 };
 
+// Positions along a finite line: the signed distance from the foot of the perpendicular from the
+// origin, in the direction (-b, a). Independent of where the points on the line currently are.
+export const getLineParameter = (line: {a: number, b: number, c: number}, p: Coordinates) => {
+  const n = Math.hypot(line.a, line.b);
+  return n === 0 ? 0 : (-line.b * p.x + line.a * p.y) / n;
+};
+
+export const pointAtLineParameter = (line: {a: number, b: number, c: number}, s: number) => {
+  const base = closestPointOnLine(0, 0, line);
+  const n = Math.hypot(line.a, line.b);
+  if (n === 0) return base;
+  return { x: base.x - (line.b / n) * s, y: base.y + (line.a / n) * s };
+};
+
+// Parallel lines meet at a point at infinity (w = 0). Returns null only for coincident lines.
 export const intersectLines = (l1: {a: number, b: number, c: number}, l2: {a: number, b: number, c: number}) => {
-  const det = l1.a * l2.b - l2.a * l1.b;
-  if (Math.abs(det) < 1e-9) return null; // Parallel
-  const x = (l1.b * l2.c - l2.b * l1.c) / det;
-  const y = (l1.c * l2.a - l2.c * l1.a) / det;
-  return { x, y };
+  return fromHomogeneous(crossProduct([l1.a, l1.b, l1.c], [l2.a, l2.b, l2.c]));
 };
 
 export const getLineFromPointAndAngle = (point: GeoPoint, angleRad: number) => {
@@ -216,21 +497,33 @@ export const getLineFromPointAndAngle = (point: GeoPoint, angleRad: number) => {
   return { a, b, c };
 };
 
-export const getLineFromTwoPoints = (p1: {x: number, y: number}, p2: {x: number, y: number}) => {
+export const getLineFromTwoPoints = (p1: {x: number, y: number, w?: number}, p2: {x: number, y: number, w?: number}) => {
+  // L = P1 x P2, which for finite points is
   // a = y1 - y2
   // b = x2 - x1
   // c = -ax1 - by1
-  const a = p1.y - p2.y;
-  const b = p2.x - p1.x;
-  const c = -a * p1.x - b * p1.y;
+  // A point at infinity contributes its direction, giving the parallel through the other point.
+  const [a, b, c] = crossProduct(toHomogeneous(p1), toHomogeneous(p2));
   return { a, b, c };
 };
 
 // Intersect Line (ax + by + c = 0) with Conic (Ax^2 + Bxy + Cy^2 + Dx + Ey + F = 0)
-export const intersectLineConic = (line: {a: number, b: number, c: number}, conic: GeoConic): {x: number, y: number}[] => {
+export const intersectLineConic = (line: {a: number, b: number, c: number}, conic: GeoConic): {x: number, y: number, w?: number}[] => {
   const { a, b, c } = line;
   const { A, B, C, D, E, F } = conic.coeffs;
 
+  // Line at infinity: the conic's points at infinity are its asymptotic directions Ax^2 + Bxy + Cy^2 = 0
+  if (isLineAtInfinity(line)) {
+    const disc = B * B - 4 * A * C;
+    if (disc < -1e-12) return [];
+    const dirs = Math.abs(A) > Math.abs(C)
+      ? [(-B + Math.sqrt(Math.max(0, disc))) / (2 * A), (-B - Math.sqrt(Math.max(0, disc))) / (2 * A)].map(t => [t, 1])
+      : Math.abs(C) > 1e-12
+        ? [(-B + Math.sqrt(Math.max(0, disc))) / (2 * C), (-B - Math.sqrt(Math.max(0, disc))) / (2 * C)].map(t => [1, t])
+        : [[1, 0], [0, 1]];
+    return dirs.map(([dx, dy]) => fromHomogeneous([dx, dy, 0])!);
+  }
+
   // Case 1: Line is vertical (b approx 0)
   if (Math.abs(b) < 1e-9) {
     // x = -c/a
@@ -239,6 +532,11 @@ export const intersectLineConic = (line: {a: number, b: number, c: number}, coni
     const qa = C;
     const qb = B * x + E;
     const qc = A * x * x + D * x + F;
+
+    // Line parallel to an asymptote / the axis of a parabola: a single intersection
+    if (Math.abs(qa) < 1e-12) {
+      return Math.abs(qb) < 1e-12 ? [] : [{ x, y: -qc / qb }];
+    }
     
     const disc = qb * qb - 4 * qa * qc;
     if (disc < 0) return [];
@@ -266,6 +564,12 @@ export const intersectLineConic = (line: {a: number, b: number, c: number}, coni
   const qb = B * m + 2 * C * k * m + D + E * k;
   const qc = C * m * m + E * m + F;
 
+  if (Math.abs(qa) < 1e-12) {
+    if (Math.abs(qb) < 1e-12) return [];
+    const x = -qc / qb;
+    return [{ x, y: k * x + m }];
+  }
+
   const disc = qb * qb - 4 * qa * qc;
   if (disc < 0) return [];
 
@@ -277,4 +581,337 @@ export const intersectLineConic = (line: {a: number, b: number, c: number}, coni
   const y2 = k * x2 + m;
 
   return [{ x: x1, y: y1 }, { x: x2, y: y2 }];
-};
\ No newline at end of file
+};
+
+// --- Conic-Conic Intersection ---
+
+// Real roots of a t^3 + b t^2 + c t + d = 0 (falls back to lower degrees when leading terms vanish)
+export const solveCubic = (a: number, b: number, c: number, d: number): number[] => {
+  const scale = Math.max(Math.abs(a), Math.abs(b), Math.abs(c), Math.abs(d));
+  if (scale === 0) return [];
+  if (Math.abs(a) < 1e-12 * scale) {
+    if (Math.abs(b) < 1e-12 * scale) {
+      return Math.abs(c) < 1e-12 * scale ? [] : [-d / c];
+    }
+    const disc = c * c - 4 * b * d;
+    if (disc < 0) return [];
+    const sq = Math.sqrt(disc);
+    return [(-c + sq) / (2 * b), (-c - sq) / (2 * b)];
+  }
+
+  // Depressed cubic t = u - b/(3a): u^3 + p u + q = 0
+  const B = b / a, C = c / a, D = d / a;
+  const p = C - B * B / 3;
+  const q = 2 * B * B * B / 27 - B * C / 3 + D;
+  const shift = -B / 3;
+  const disc = q * q / 4 + p * p * p / 27;
+
+  if (disc > 1e-14) {
+    const sq = Math.sqrt(disc);
+    return [Math.cbrt(-q / 2 + sq) + Math.cbrt(-q / 2 - sq) + shift];
+  }
+  if (Math.abs(p) < 1e-14) {
+    return [Math.cbrt(-q) + shift];
+  }
+  // Three real roots (trigonometric form)
+  const r = 2 * Math.sqrt(-p / 3);
+  const phi = Math.acos(Math.max(-1, Math.min(1, (3 * q) / (p * r))));
+  return [0, 1, 2].map(k => r * Math.cos((phi - 2 * Math.PI * k) / 3) + shift);
+};
+
+// Splits a degenerate conic matrix (rank <= 2) into its two lines [a, b, c].
+// Returns null when the lines are not real (a single real point) or the matrix is not degenerate.
+// Method: adj(D) = -p p^T for the meeting point p of the lines, and D + [p]x has rank 1 = g h^T.
+export const splitDegenerateConic = (matrix: number[][]): [number[], number[]] | null => {
+  const D = normalizeMatrix(matrix);
+  const adj = adjugate3(D);
+
+  let i = 0;
+  for (let k = 1; k < 3; k++) if (Math.abs(adj[k][k]) > Math.abs(adj[i][i])) i = k;
+
+  if (maxAbs(adj) < 1e-9) {
+    // Rank 1: D = l l^T, a double line. Any non-zero row is a multiple of l.
+    let row = 0;
+    for (let k = 1; k < 3; k++) if (Math.hypot(...D[k]) > Math.hypot(...D[row])) row = k;
+    if (Math.hypot(...D[row]) < 1e-12) return null;
+    return [D[row], D[row]];
+  }
+
+  // Real line pairs have adj(D) negative semi-definite
+  if (adj[i][i] > 1e-12) return null;
+  const beta = Math.sqrt(Math.max(0, -adj[i][i]));
+  if (beta < 1e-12) return null;
+  const p = [adj[0][i] / beta, adj[1][i] / beta, adj[2][i] / beta];
+
+  const Cm = [
+    [D[0][0], D[0][1] + p[2], D[0][2] - p[1]],
+    [D[1][0] - p[2], D[1][1], D[1][2] + p[0]],
+    [D[2][0] + p[1], D[2][1] - p[0], D[2][2]],
+  ];
+
+  let r = 0, c = 0;
+  for (let j = 0; j < 3; j++) {
+    for (let k = 0; k < 3; k++) {
+      if (Math.abs(Cm[j][k]) > Math.abs(Cm[r][c])) { r = j; c = k; }
+    }
+  }
+  if (Math.abs(Cm[r][c]) < 1e-12) return null;
+
+  return [Cm[r], [Cm[0][c], Cm[1][c], Cm[2][c]]];
+};
+
+// Value of the conic equation at (x, y), relative to the size of the coefficients
+const conicResidual = (conic: GeoConic, x: number, y: number) => {
+  const { A, B, C, D, E, F } = conic.coeffs;
+  const scale = Math.max(Math.abs(A), Math.abs(B), Math.abs(C), Math.abs(D), Math.abs(E), Math.abs(F)) || 1;
+  return Math.abs(A * x * x + B * x * y + C * y * y + D * x + E * y + F) / (scale * (1 + x * x + y * y));
+};
+
+// Real common points of two conics (at most 4), sorted by x then y.
+// The pencil M1 + t M2 contains degenerate members where det(M1 + t M2) = 0; each real one
+// splits into two lines, and the common points are the intersections of those lines with conic 1.
+export const intersectConics = (c1: GeoConic, c2: GeoConic): { x: number; y: number }[] => {
+  const M1 = normalizeMatrix(getConicMatrix(c1));
+  const M2 = normalizeMatrix(getConicMatrix(c2));
+  const member = (t: number) => M1.map((row, i) => row.map((v, j) => v + t * M2[i][j]));
+
+  // Identical conics (up to scale) share infinitely many points
+  if (maxAbs(member(-1)) < 1e-9 || maxAbs(member(1)) < 1e-9) return [];
+
+  // det(M1 + t M2) is a cubic in t; recover its coefficients from four samples
+  const f0 = determinant3(M1);
+  const f1 = determinant3(member(1));
+  const fm1 = determinant3(member(-1));
+  const f2 = determinant3(member(2));
+  const d = f0;
+  const b = (f1 + fm1) / 2 - d;
+  const a = (f2 - 4 * b - d - (f1 - fm1)) / 6;
+  const c = (f1 - fm1) / 2 - a;
+
+  // Every member degenerate: the intersection is not a finite set
+  if (Math.max(Math.abs(a), Math.abs(b), Math.abs(c), Math.abs(d)) < 1e-12) return [];
+
+  const members = solveCubic(a, b, c, d).map(member);
+  // A vanishing leading coefficient means M2 itself is degenerate (root at t = infinity)
+  if (Math.abs(a) < 1e-9) members.push(M2);
+
+  const points: { x: number; y: number }[] = [];
+  members.forEach(m => {
+    if (maxAbs(m) < 1e-9) return;
+    const lines = splitDegenerateConic(m);
+    if (!lines) return;
+    // A line of a degenerate input conic lies on that conic, so intersect it with both
+    lines.forEach(([la, lb, lc]) => {
+      [c1, c2].flatMap(target => intersectLineConic({ a: la, b: lb, c: lc }, target)).forEach(pt => {
+        if (pt.w === 0 || !isFinite(pt.x) || !isFinite(pt.y)) return;
+        if (conicResidual(c1, pt.x, pt.y) > 1e-6 || conicResidual(c2, pt.x, pt.y) > 1e-6) return;
+        const tol = 1e-6 * (1 + Math.hypot(pt.x, pt.y));
+        if (points.some(q => Math.hypot(q.x - pt.x, q.y - pt.y) < tol)) return;
+        points.push(pt);
+      });
+    });
+  });
+
+  return points
+    .slice(0, 4)
+    .sort((p, q) => (Math.abs(p.x - q.x) > 1e-9 ? p.x - q.x : p.y - q.y));
+};
+
+// Point of a conic closest to (px, py), or null when the conic has no real points. The feet of the
+// normals through (px, py) are the points where the gradient is parallel to the offset; they
+// lie on a second conic (the Apollonian conic), so they are the common points of the two.
+export const closestPointOnConic = (px: number, py: number, conic: GeoConic): Coordinates | null => {
+  const { A, B, C, D, E, F } = conic.coeffs;
+  const normals = {
+    A: -B, B: 2 * (A - C), C: B,
+    D: B * px - 2 * A * py - E,
+    E: 2 * C * px - B * py + D,
+    F: E * px - D * py,
+  };
+  const scale = Math.max(Math.abs(A), Math.abs(B), Math.abs(C)) || 1;
+  let candidates: { x: number; y: number; w?: number }[];
+  if (Math.max(Math.abs(normals.A), Math.abs(normals.B), Math.abs(normals.C)) > 1e-9 * scale) {
+    candidates = intersectConics(conic, { ...conic, coeffs: normals });
+  } else if (Math.hypot(normals.D, normals.E) > 1e-12 * scale) {
+    // Circle: the normals all pass through its center, so the Apollonian conic is one line
+    candidates = intersectLineConic({ a: normals.D, b: normals.E, c: normals.F }, conic);
+  } else {
+    // At the center of a circle every point is closest; take the one to the right
+    candidates = intersectLineConic({ a: 0, b: 1, c: -py }, conic);
+  }
+
+  let best: Coordinates | null = null;
+  candidates.forEach(p => {
+    if (p.w === 0 || !isFinite(p.x) || !isFinite(p.y)) return;
+    if (!best || Math.hypot(p.x - px, p.y - py) < Math.hypot(best.x - px, best.y - py)) best = { x: p.x, y: p.y };
+  });
+  return best;
+};
+
+// --- Circles ---
+
+// Coefficients of (x - cx)^2 + (y - cy)^2 = r^2
+export const getCircleCoefficients = (cx: number, cy: number, r: number) =>
+  ({ A: 1, B: 0, C: 1, D: -2 * cx, E: -2 * cy, F: cx * cx + cy * cy - r * r });
+
+// Circle through three points, or null when they are collinear (or two coincide)
+export const circumcircle = (p1: Coordinates, p2: Coordinates, p3: Coordinates) => {
+  const bx = p2.x - p1.x, by = p2.y - p1.y;
+  const cx = p3.x - p1.x, cy = p3.y - p1.y;
+  const d = 2 * (bx * cy - by * cx);
+  const b2 = bx * bx + by * by;
+  const c2 = cx * cx + cy * cy;
+  if (Math.abs(d) <= 1e-12 * (b2 + c2)) return null;
+  const ux = (cy * b2 - by * c2) / d;
+  const uy = (bx * c2 - cx * b2) / d;
+  return { cx: p1.x + ux, cy: p1.y + uy, r: Math.hypot(ux, uy) };
+};
+
+// --- Conic Through Five Points ---
+
+// Determinant of an n x n matrix by Gaussian elimination with partial pivoting
+export const determinant = (matrix: number[][]): number => {
+  const m = matrix.map(row => [...row]);
+  const n = m.length;
+  let det = 1;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    if (m[pivot][col] === 0) return 0;
+    if (pivot !== col) {
+      [m[pivot], m[col]] = [m[col], m[pivot]];
+      det = -det;
+    }
+    det *= m[col][col];
+    for (let r = col + 1; r < n; r++) {
+      const f = m[r][col] / m[col][col];
+      for (let c = col; c < n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+  return det;
+};
+
+// The points moved to their centroid and scaled to unit RMS distance from it, so that
+// tolerances do not depend on where the points are or how far apart; null if they coincide
+const normalizePoints = (points: Coordinates[]) => {
+  const mx = points.reduce((s, p) => s + p.x, 0) / points.length;
+  const my = points.reduce((s, p) => s + p.y, 0) / points.length;
+  const scale = Math.sqrt(points.reduce((s, p) => s + (p.x - mx) ** 2 + (p.y - my) ** 2, 0) / points.length);
+  if (!(scale > 1e-9) || !isFinite(scale)) return null;
+  return { mx, my, scale, local: points.map(p => ({ x: (p.x - mx) / scale, y: (p.y - my) / scale })) };
+};
+
+// Coefficients in normalized coordinates back to world coordinates (substitute
+// x -> (x - mx) / scale, y -> (y - my) / scale), with the largest one scaled to 1
+const denormalizeCoeffs = ([a, b, c, d, e, f]: number[], mx: number, my: number, scale: number) => {
+  const s2 = scale * scale;
+  const coeffs = [
+    a / s2,
+    b / s2,
+    c / s2,
+    (-2 * a * mx - b * my) / s2 + d / scale,
+    (-2 * c * my - b * mx) / s2 + e / scale,
+    (a * mx * mx + b * mx * my + c * my * my) / s2 - (d * mx + e * my) / scale + f,
+  ];
+  const largest = Math.max(...coeffs.map(Math.abs));
+  const [A, B, C, D, E, F] = coeffs.map(k => k / largest);
+  return { A, B, C, D, E, F };
+};
+
+// General coefficients of the conic through five points, or null when they do not determine
+// a unique conic (four of them collinear, or coincident points).
+// Each row [x^2, xy, y^2, x, y, 1] must be orthogonal to (A..F), so the coefficients are the
+// signed 5x5 minors of the 5x6 system (expansion of the 6x6 determinant along a free row).
+// The system is built on normalized points, like `fitConic`.
+export const conicThroughFivePoints = (points: Coordinates[]) => {
+  if (points.length !== 5) return null;
+  const normalized = normalizePoints(points);
+  if (!normalized) return null;
+  const { mx, my, scale, local } = normalized;
+  const rows = local.map(({ x, y }) => [x * x, x * y, y * y, x, y, 1]);
+  const minors = [0, 1, 2, 3, 4, 5].map(k =>
+    (k % 2 === 0 ? 1 : -1) * determinant(rows.map(row => row.filter((_, j) => j !== k)))
+  );
+
+  // All minors vanish (relative to the size of the rows) when the solution space is not 1-dimensional
+  const size = rows.reduce((acc, row) => acc * Math.hypot(...row), 1);
+  const largest = Math.max(...minors.map(Math.abs));
+  if (!isFinite(largest) || largest < 1e-10 * size) return null;
+
+  return denormalizeCoeffs(minors.map(v => v / largest), mx, my, scale);
+};
+
+// --- Conic Fitting ---
+
+// Eigen decomposition of a symmetric matrix (cyclic Jacobi rotations).
+// Returns the eigenvalues in ascending order with their unit eigenvectors.
+export const symmetricEigen = (matrix: number[][]) => {
+  const n = matrix.length;
+  const m = matrix.map(row => [...row]);
+  const v = m.map((_, i) => m.map((_, j): number => (i === j ? 1 : 0)));
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let off = 0;
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) off += m[p][q] * m[p][q];
+    if (off < 1e-30) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(m[p][q]) < 1e-300) continue;
+        // Rotation angle that zeroes m[p][q]
+        const theta = (m[q][q] - m[p][p]) / (2 * m[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const mkp = m[k][p], mkq = m[k][q];
+          m[k][p] = c * mkp - s * mkq;
+          m[k][q] = s * mkp + c * mkq;
+        }
+        for (let k = 0; k < n; k++) {
+          const mpk = m[p][k], mqk = m[q][k];
+          m[p][k] = c * mpk - s * mqk;
+          m[q][k] = s * mpk + c * mqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p], vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  return m
+    .map((row, i) => ({ value: row[i], vector: v.map(r => r[i]) }))
+    .sort((x, y) => x.value - y.value);
+};
+
+// The conic through all the given points, if there is exactly one (up to scale).
+// Least squares over the rows [x^2, xy, y^2, x, y, 1] after centering and scaling the points;
+// the fit is rejected when any point lies off it or when the smallest singular value is not isolated
+// (e.g. collinear points lie on many conics).
+export const fitConic = (points: Coordinates[]) => {
+  if (points.length < 6) return null;
+  const normalized = normalizePoints(points);
+  if (!normalized) return null;
+  const { mx, my, scale, local } = normalized;
+  const S = Array.from({ length: 6 }, () => new Array(6).fill(0));
+  local.forEach(({ x, y }) => {
+    const row = [x * x, x * y, y * y, x, y, 1];
+    for (let i = 0; i < 6; i++) for (let j = 0; j < 6; j++) S[i][j] += row[i] * row[j];
+  });
+
+  const [first, second] = symmetricEigen(S);
+  const rel = (value: number) => Math.abs(value) / points.length;
+  if (rel(first.value) > 1e-12 || rel(second.value) < 1e-8) return null;
+
+  // Every point within a small (gradient-normalized) distance of the fitted conic
+  const [a, b, c, d, e, f] = first.vector;
+  const fits = local.every(({ x, y }) => {
+    const value = a * x * x + b * x * y + c * y * y + d * x + e * y + f;
+    const grad = Math.hypot(2 * a * x + b * y + d, b * x + 2 * c * y + e);
+    return Math.abs(value) <= 1e-6 * Math.max(grad, 1e-3);
+  });
+  return fits ? denormalizeCoeffs(first.vector, mx, my, scale) : null;
+};
@@ -0,0 +1,150 @@
+import { GeoEntity, GeoMeasure, GeoPoint, ObjectType, MeasureType, Coordinates } from '../types';
+import { closestPointOnLine, intersectLines, isLineAtInfinity, crossRatio, toHomogeneous } from './math';
+import { isLinear, LinearEntity } from './objects';
+
+// --- Measurements ---
+// Distances, angles, areas, slopes and cross-ratios computed from the (already solved) inputs of a
+// `GeoMeasure`, together with the annotation that is drawn for them.
+
+// Input types of each kind of measurement, in `dependencies` order. Segments and rays count as lines
+// (their carrier line is measured).
+export const MEASURE_INPUTS: Record<MeasureType, ObjectType[]> = {
+  [MeasureType.DISTANCE]: [ObjectType.POINT, ObjectType.POINT],
+  [MeasureType.POINT_LINE_DISTANCE]: [ObjectType.POINT, ObjectType.LINE],
+  [MeasureType.ANGLE]: [ObjectType.LINE, ObjectType.LINE],
+  [MeasureType.AREA]: [ObjectType.POINT, ObjectType.POINT, ObjectType.POINT],
+  [MeasureType.SLOPE]: [ObjectType.LINE],
+  [MeasureType.CROSS_RATIO]: [ObjectType.POINT, ObjectType.POINT, ObjectType.POINT, ObjectType.POINT],
+  [MeasureType.CROSS_RATIO_LINES]: [ObjectType.LINE, ObjectType.LINE, ObjectType.LINE, ObjectType.LINE],
+};
+
+export const MEASURE_LABELS: Record<MeasureType, string> = {
+  [MeasureType.DISTANCE]: 'Distance',
+  [MeasureType.POINT_LINE_DISTANCE]: 'Point–Line Distance',
+  [MeasureType.ANGLE]: 'Angle',
+  [MeasureType.AREA]: 'Triangle Area',
+  [MeasureType.SLOPE]: 'Slope',
+  [MeasureType.CROSS_RATIO]: 'Cross-Ratio (Points)',
+  [MeasureType.CROSS_RATIO_LINES]: 'Cross-Ratio (Lines)',
+};
+
+// Radius of the arc drawn for an angle, in units
+const ANGLE_ARC_RADIUS = 0.8;
+
+// The value as shown on the canvas
+export const formatMeasure = (measure: GeoMeasure) => {
+  if (measure.value === null) return measure.measureType === MeasureType.SLOPE ? '∞ (vertical)' : '∞';
+  const rounded = parseFloat(measure.value.toFixed(measure.measureType === MeasureType.ANGLE ? 2 : 3));
+  return measure.measureType === MeasureType.ANGLE ? `${rounded}°` : `${rounded}`;
+};
+
+// Default name of a new measurement, e.g. d(A,B) or ∠(L1,L2)
+export const measureName = (measureType: MeasureType, inputs: GeoEntity[]) => {
+  const names = inputs.map(o => o.name).join(',');
+  switch (measureType) {
+    case MeasureType.ANGLE: return `∠(${names})`;
+    case MeasureType.AREA: return `Area(${names})`;
+    case MeasureType.SLOPE: return `m(${names})`;
+    case MeasureType.CROSS_RATIO:
+    case MeasureType.CROSS_RATIO_LINES: {
+      const [a, b, c, d] = inputs.map(o => o.name);
+      return `(${a},${b};${c},${d})`;
+    }
+    default: return `d(${names})`;
+  }
+};
+
+type MeasureResult = Pick<GeoMeasure, 'value' | 'x' | 'y' | 'shape'>;
+
+const isFinitePoint = (p: GeoEntity | undefined): p is GeoPoint => p?.type === ObjectType.POINT && !p.hidden && p.w !== 0;
+const isFiniteLine = (l: GeoEntity | undefined): l is LinearEntity =>
+  isLinear(l) && !l.hidden && !(l.a === 0 && l.b === 0) && !isLineAtInfinity(l);
+
+// Points of an arc around `center` from direction angle t0 to t1 (radians)
+const arc = (center: Coordinates, t0: number, t1: number): Coordinates[] =>
+  Array.from({ length: 17 }, (_, i) => {
+    const t = t0 + ((t1 - t0) * i) / 16;
+    return { x: center.x + ANGLE_ARC_RADIUS * Math.cos(t), y: center.y + ANGLE_ARC_RADIUS * Math.sin(t) };
+  });
+
+// The measured value and its annotation, or null when an input is missing, hidden or at infinity
+export const computeMeasure = (measure: GeoMeasure, entityMap: Map<string, GeoEntity>): MeasureResult | null => {
+  const inputs = (measure.dependencies ?? []).map(id => entityMap.get(id));
+  const [i0, i1, i2] = inputs;
+
+  switch (measure.measureType) {
+    case MeasureType.DISTANCE: {
+      if (!isFinitePoint(i0) || !isFinitePoint(i1)) return null;
+      return { value: Math.hypot(i1.x - i0.x, i1.y - i0.y), x: (i0.x + i1.x) / 2, y: (i0.y + i1.y) / 2, shape: [i0, i1].map(({ x, y }) => ({ x, y })) };
+    }
+    case MeasureType.POINT_LINE_DISTANCE: {
+      if (!isFinitePoint(i0) || !isFiniteLine(i1)) return null;
+      const foot = closestPointOnLine(i0.x, i0.y, i1);
+      return { value: Math.hypot(foot.x - i0.x, foot.y - i0.y), x: (i0.x + foot.x) / 2, y: (i0.y + foot.y) / 2, shape: [{ x: i0.x, y: i0.y }, foot] };
+    }
+    case MeasureType.ANGLE: {
+      if (!isFiniteLine(i0) || !isFiniteLine(i1)) return null;
+      // Directions along the lines, the second one flipped so that the angle is at most 90 degrees
+      const t0 = Math.atan2(i0.a, -i0.b);
+      let t1 = Math.atan2(i1.a, -i1.b);
+      let delta = Math.atan2(Math.sin(t1 - t0), Math.cos(t1 - t0));
+      if (Math.abs(delta) > Math.PI / 2) {
+        t1 += Math.PI;
+        delta = Math.atan2(Math.sin(t1 - t0), Math.cos(t1 - t0));
+      }
+      const value = Math.abs(delta) * 180 / Math.PI;
+      const vertex = intersectLines(i0, i1);
+      if (!vertex || vertex.w === 0) {
+        // Parallel lines: no vertex to draw the arc at
+        const foot = closestPointOnLine(0, 0, i0);
+        return { value: 0, x: foot.x, y: foot.y, shape: [] };
+      }
+      const mid = t0 + delta / 2;
+      const labelRadius = ANGLE_ARC_RADIUS * 1.5;
+      return { value, x: vertex.x + labelRadius * Math.cos(mid), y: vertex.y + labelRadius * Math.sin(mid), shape: arc(vertex, t0, t0 + delta) };
+    }
+    case MeasureType.AREA: {
+      if (!isFinitePoint(i0) || !isFinitePoint(i1) || !isFinitePoint(i2)) return null;
+      const cross = (i1.x - i0.x) * (i2.y - i0.y) - (i1.y - i0.y) * (i2.x - i0.x);
+      return {
+        value: Math.abs(cross) / 2,
+        x: (i0.x + i1.x + i2.x) / 3,
+        y: (i0.y + i1.y + i2.y) / 3,
+        shape: [i0, i1, i2].map(({ x, y }) => ({ x, y })),
+      };
+    }
+    case MeasureType.SLOPE: {
+      if (!isFiniteLine(i0)) return null;
+      // dy/dx in world coordinates; the label sits at the point of the line closest to the origin
+      const foot = closestPointOnLine(0, 0, i0);
+      return { value: Math.abs(i0.b) < 1e-12 ? null : -i0.a / i0.b, x: foot.x, y: foot.y, shape: [] };
+    }
+    case MeasureType.CROSS_RATIO: {
+      // Points at infinity take part; only hidden inputs make the value undefined
+      if (inputs.some(p => p?.type !== ObjectType.POINT || p.hidden)) return null;
+      const points = inputs as GeoPoint[];
+      const value = crossRatio(points.map(toHomogeneous));
+      if (value === null) return null;
+      // Label above the finite points
+      const finite = points.filter(p => p.w !== 0);
+      if (finite.length === 0) return null;
+      const x = finite.reduce((s, p) => s + p.x, 0) / finite.length;
+      const y = finite.reduce((s, p) => s + p.y, 0) / finite.length - ANGLE_ARC_RADIUS;
+      return { value: isFinite(value) ? value : null, x, y, shape: [] };
+    }
+    case MeasureType.CROSS_RATIO_LINES: {
+      if (inputs.some(l => !isLinear(l) || l.hidden)) return null;
+      const lines = inputs as LinearEntity[];
+      const value = crossRatio(lines.map(l => [l.a, l.b, l.c]));
+      if (value === null) return null;
+      // Label next to the common point, or on the first line when they are parallel
+      const common = intersectLines(lines[0], lines[1]) ?? intersectLines(lines[0], lines[2]);
+      const anchor = common && common.w !== 0
+        ? { x: common.x, y: common.y - ANGLE_ARC_RADIUS }
+        : isFiniteLine(lines[0]) ? closestPointOnLine(0, 0, lines[0]) : null;
+      if (!anchor) return null;
+      return { value: isFinite(value) ? value : null, ...anchor, shape: [] };
+    }
+  }
+  return null;
+};
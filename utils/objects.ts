@@ -0,0 +1,68 @@
+import { GeoEntity, GeoLine, GeoSegment, GeoRay, GeoConic, GeoCircle, ObjectType, ConicType, Coordinates } from '../types';
+
+// --- Object Kinds ---
+// Segments and rays are bounded lines and circles are special conics. Constructions that only
+// need the line equation or the conic coefficients accept them wherever a line or conic fits.
+
+export type LinearEntity = GeoLine | GeoSegment | GeoRay;
+export type ConicEntity = GeoConic | GeoCircle;
+
+// LINE for lines, segments and rays, CONIC for conics and circles, the type itself otherwise
+export const objectKind = (type: ObjectType) => {
+  if (type === ObjectType.SEGMENT || type === ObjectType.RAY) return ObjectType.LINE;
+  if (type === ObjectType.CIRCLE) return ObjectType.CONIC;
+  return type;
+};
+
+// Whether an object is drawn: it exists and the user has not hidden it
+export const isShown = (obj: GeoEntity) => !obj.hidden && obj.visible !== false;
+
+export const isLinear = (obj: GeoEntity | null | undefined): obj is LinearEntity =>
+  !!obj && objectKind(obj.type) === ObjectType.LINE;
+
+export const isConicLike = (obj: GeoEntity | null | undefined): obj is ConicEntity =>
+  !!obj && objectKind(obj.type) === ObjectType.CONIC;
+
+// A circle as an ellipse with equal axes, for the conic math helpers
+export const asConic = (obj: ConicEntity): GeoConic => {
+  if (obj.type === ObjectType.CONIC) return obj;
+  const { id, name, color, hidden, dependencies, cx, cy, radius, coeffs } = obj;
+  return {
+    id, name, color, hidden, dependencies,
+    type: ObjectType.CONIC,
+    conicType: ConicType.ELLIPSE,
+    cx, cy, a: radius, b: radius, rotation: 0,
+    coeffs,
+  };
+};
+
+// Position of p on the carrier line of a segment or ray: 0 at `start`, 1 at `end`
+const extentParameter = (obj: GeoSegment | GeoRay, p: Coordinates) => {
+  const dx = obj.end.x - obj.start.x;
+  const dy = obj.end.y - obj.start.y;
+  return ((p.x - obj.start.x) * dx + (p.y - obj.start.y) * dy) / (dx * dx + dy * dy);
+};
+
+// Whether a point of the carrier line belongs to the drawn part. Only rays reach infinity,
+// in the direction they point to.
+export const isOnExtent = (obj: LinearEntity, p: { x: number; y: number; w?: number }) => {
+  if (obj.type === ObjectType.LINE) return true;
+  if (p.w === 0) {
+    return obj.type === ObjectType.RAY && p.x * (obj.end.x - obj.start.x) + p.y * (obj.end.y - obj.start.y) > 0;
+  }
+  const t = extentParameter(obj, p);
+  const eps = 1e-9;
+  return t >= -eps && (obj.type === ObjectType.RAY || t <= 1 + eps);
+};
+
+// The point of the drawn part closest to a point of the carrier line
+export const clampToExtent = (obj: LinearEntity, p: Coordinates): Coordinates => {
+  if (obj.type === ObjectType.LINE) return p;
+  const t = extentParameter(obj, p);
+  const clamped = Math.max(0, obj.type === ObjectType.RAY ? t : Math.min(1, t));
+  if (clamped === t) return p;
+  return {
+    x: obj.start.x + clamped * (obj.end.x - obj.start.x),
+    y: obj.start.y + clamped * (obj.end.y - obj.start.y),
+  };
+};
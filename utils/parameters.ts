@@ -0,0 +1,71 @@
+import { GeoEntity, GeoParameter, ObjectType, CircleDefinition } from '../types';
+import { isDegenerateConicType } from './math';
+import { evaluateExpression, parseExpression, expressionNames } from './expression';
+
+// --- Parameters & Bindings ---
+// Parameters are named numbers. Numeric fields of other objects can be bound to expressions in
+// them (`bindings`), which the solver evaluates on every run, so moving a slider moves
+// everything bound to it.
+
+// Names offered for new parameters, in order; later ones are numbered
+const PARAMETER_NAMES = ['t', 'k', 's', 'u', 'v', 'w'];
+
+// Fields whose value must stay positive (sizes)
+const POSITIVE_FIELDS = ['a', 'b', 'radius'];
+
+export const isParameter = (obj: GeoEntity | null | undefined): obj is GeoParameter => obj?.type === ObjectType.PARAMETER;
+
+// Current values of all parameters by name
+export const parameterScope = (entities: Iterable<GeoEntity>) => {
+  const scope: Record<string, number> = {};
+  for (const e of entities) {
+    if (isParameter(e)) scope[e.name] = e.value;
+  }
+  return scope;
+};
+
+// The first free name for a new parameter
+export const nextParameterName = (objects: GeoEntity[]) => {
+  const used = new Set(objects.filter(isParameter).map(p => p.name));
+  return PARAMETER_NAMES.find(n => !used.has(n)) ?? `p${Array.from({ length: used.size + 1 }, (_, i) => i + 1).find(i => !used.has(`p${i}`))}`;
+};
+
+// Fields of `obj` that may be bound: those its definition leaves free to set
+export const bindableFields = (obj: GeoEntity): string[] => {
+  switch (obj.type) {
+    case ObjectType.POINT: return obj.isFree ? ['x', 'y'] : [];
+    case ObjectType.LINE: return obj.pivotPointId ? ['angle'] : [];
+    case ObjectType.CONIC: return !obj.dependencies && !isDegenerateConicType(obj.conicType) ? ['cx', 'cy', 'a', 'b', 'rotation'] : [];
+    case ObjectType.CIRCLE: return obj.circleDefinition === CircleDefinition.CENTER_RADIUS ? ['radius'] : [];
+    default: return [];
+  }
+};
+
+// Whether text typed into a field should become a binding: it refers to some variable
+export const isBindingExpression = (text: string) => {
+  const { node } = parseExpression(text);
+  return !!node && expressionNames(node).length > 0;
+};
+
+// The value of a binding, or the reason it has none (parse error, unknown parameter, a size that
+// is not positive)
+export const evaluateBinding = (field: string, expression: string, scope: Record<string, number>) => {
+  const result = evaluateExpression(expression, scope);
+  if (result.error) return result;
+  if (POSITIVE_FIELDS.includes(field) && !(result.value > 0)) return { value: null, error: 'Must be positive' };
+  return result;
+};
+
+// `obj` with its bound fields set from the parameter values. Bindings that do not evaluate keep
+// the field's last value.
+export const applyBindings = <T extends GeoEntity>(obj: T, scope: Record<string, number>): T => {
+  if (!obj.bindings) return obj;
+  const fields = bindableFields(obj);
+  const values: Record<string, number> = {};
+  Object.entries(obj.bindings).forEach(([field, expression]) => {
+    if (!fields.includes(field)) return;
+    const { value, error } = evaluateBinding(field, expression, scope);
+    if (!error) values[field] = value;
+  });
+  return { ...obj, ...values };
+};
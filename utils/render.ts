@@ -0,0 +1,163 @@
+import { Coordinates, ViewTransform, GeoEntity, ObjectType, ConicType, StrokeStyle } from '../types';
+
+// --- Render Geometry ---
+// World-space shapes shared by the live canvas and the exporters, so a figure
+// looks the same on screen and on paper.
+
+export interface ViewBounds {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+// Visible world rectangle of a width x height viewport
+export const getViewBounds = (view: ViewTransform, width: number, height: number): ViewBounds => ({
+  left: (0 - view.x) / view.k,
+  right: (width - view.x) / view.k,
+  top: (0 - view.y) / view.k,
+  bottom: (height - view.y) / view.k,
+});
+
+// Dash pattern of a stroke style with lengths in multiples of `unit` (one pixel), or null for solid
+export const strokeDashArray = (style: StrokeStyle | undefined, unit: number): number[] | null => {
+  if (style === StrokeStyle.DASHED) return [8 * unit, 5 * unit];
+  if (style === StrokeStyle.DOTTED) return [1.5 * unit, 4 * unit];
+  return null;
+};
+
+// Whether an object lies entirely inside a world rectangle (box selection). Objects that reach
+// infinity (lines, rays, hyperbolas, parabolas) never do; measurements count by their label.
+export const isInsideBounds = (obj: GeoEntity, bounds: ViewBounds): boolean => {
+  const inside = (p: Coordinates) => p.x >= bounds.left && p.x <= bounds.right && p.y >= bounds.top && p.y <= bounds.bottom;
+  switch (obj.type) {
+    case ObjectType.POINT: return obj.w !== 0 && inside(obj);
+    case ObjectType.SEGMENT: return inside(obj.start) && inside(obj.end);
+    case ObjectType.CIRCLE: return inside({ x: obj.cx - obj.radius, y: obj.cy - obj.radius }) && inside({ x: obj.cx + obj.radius, y: obj.cy + obj.radius });
+    case ObjectType.CONIC: {
+      if (obj.conicType === ConicType.POINT) return inside({ x: obj.cx, y: obj.cy });
+      if (obj.conicType !== ConicType.ELLIPSE) return false;
+      // Half extents of the rotated ellipse's bounding box
+      const { cx, cy, a, b, rotation } = obj;
+      const hx = Math.hypot(a * Math.cos(rotation), b * Math.sin(rotation));
+      const hy = Math.hypot(a * Math.sin(rotation), b * Math.cos(rotation));
+      return inside({ x: cx - hx, y: cy - hy }) && inside({ x: cx + hx, y: cy + hy });
+    }
+    case ObjectType.LOCUS: return obj.samples.length > 0 && obj.samples.every(polyline => polyline.every(inside));
+    case ObjectType.MEASURE: return inside(obj);
+    default: return false;
+  }
+};
+
+// Two points of the finite line ax + by + c = 0 a little beyond the bounds
+export const getLineEndpoints = (a: number, b: number, c: number, bounds: ViewBounds, overshoot = 100) => {
+  if (Math.abs(b) > Math.abs(a)) {
+    const x1 = bounds.left - overshoot;
+    const x2 = bounds.right + overshoot;
+    return { x1, y1: (-c - a * x1) / b, x2, y2: (-c - a * x2) / b };
+  }
+  const y1 = bounds.top - overshoot;
+  const y2 = bounds.bottom + overshoot;
+  return { x1: (-c - b * y1) / a, y1, x2: (-c - b * y2) / a, y2 };
+};
+
+// The part of the finite line ax + by + c = 0 inside the bounds, or null if it misses them
+export const clipLineToBounds = (a: number, b: number, c: number, bounds: ViewBounds) => {
+  const eps = 1e-9 * (1 + Math.abs(bounds.right - bounds.left) + Math.abs(bounds.bottom - bounds.top));
+  const inside = (x: number, y: number) =>
+    x >= bounds.left - eps && x <= bounds.right + eps && y >= bounds.top - eps && y <= bounds.bottom + eps;
+
+  const hits: Coordinates[] = [];
+  if (Math.abs(b) > 1e-12) {
+    [bounds.left, bounds.right].forEach(x => { const y = (-c - a * x) / b; if (inside(x, y)) hits.push({ x, y }); });
+  }
+  if (Math.abs(a) > 1e-12) {
+    [bounds.top, bounds.bottom].forEach(y => { const x = (-c - b * y) / a; if (inside(x, y)) hits.push({ x, y }); });
+  }
+
+  // A line through a corner hits two edges at the same point: keep the farthest pair
+  let best: [Coordinates, Coordinates] | null = null;
+  let bestDist = 0;
+  hits.forEach((p, i) => hits.slice(i + 1).forEach(q => {
+    const d = Math.hypot(p.x - q.x, p.y - q.y);
+    if (d > bestDist) { best = [p, q]; bestDist = d; }
+  }));
+  if (!best) return null;
+  const [p, q] = best as [Coordinates, Coordinates];
+  return { x1: p.x, y1: p.y, x2: q.x, y2: q.y };
+};
+
+// A point of the ray from `start` through `through` a little beyond the bounds
+export const getRayEnd = (start: Coordinates, through: Coordinates, bounds: ViewBounds, overshoot = 100): Coordinates => {
+  const dx = through.x - start.x;
+  const dy = through.y - start.y;
+  const length = Math.hypot(dx, dy) || 1;
+  const reach = Math.max(
+    ...[[bounds.left, bounds.top], [bounds.right, bounds.top], [bounds.left, bounds.bottom], [bounds.right, bounds.bottom]]
+      .map(([x, y]) => Math.hypot(x - start.x, y - start.y))
+  ) + overshoot;
+  return { x: start.x + (dx / length) * reach, y: start.y + (dy / length) * reach };
+};
+
+// The line at infinity is drawn as a frame just inside the view
+export const getLineAtInfinityFrame = (bounds: ViewBounds, inset: number) => ({
+  x: bounds.left + inset,
+  y: bounds.top + inset,
+  width: bounds.right - bounds.left - 2 * inset,
+  height: bounds.bottom - bounds.top - 2 * inset,
+});
+
+// A point at infinity in direction d is drawn as two arrows, where the rays from the view
+// center in directions +d and -d leave the view (pulled in by `margin`)
+export const getPointAtInfinityMarkers = (direction: Coordinates, bounds: ViewBounds, margin: number) => {
+  const cx = (bounds.left + bounds.right) / 2;
+  const cy = (bounds.top + bounds.bottom) / 2;
+  const angle = Math.atan2(direction.y, direction.x) * 180 / Math.PI;
+
+  return [1, -1].map(sign => {
+    const dx = sign * direction.x;
+    const dy = sign * direction.y;
+    const tx = dx > 1e-12 ? (bounds.right - cx) / dx : dx < -1e-12 ? (bounds.left - cx) / dx : Infinity;
+    const ty = dy > 1e-12 ? (bounds.bottom - cy) / dy : dy < -1e-12 ? (bounds.top - cy) / dy : Infinity;
+    const t = Math.min(tx, ty) - margin;
+    return { sign, x: cx + dx * t, y: cy + dy * t, dx, dy, angle: sign > 0 ? angle : angle + 180 };
+  });
+};
+
+// SVG path through a polyline
+export const toPathData = (points: Coordinates[]) =>
+  points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x},${p.y}`).join('');
+
+// Samples of y'^2 = 4ax' in the parabola's own frame (vertex at the origin)
+export const sampleParabola = (a: number, range = 10, step = 0.1): Coordinates[] => {
+  const n = Math.round(2 * range / step);
+  return Array.from({ length: n + 1 }, (_, i) => {
+    const t = -range + i * step;
+    return { x: (t * t) / (4 * a), y: t };
+  });
+};
+
+// Samples of one branch of x'^2/a^2 - y'^2/b^2 = 1 in the hyperbola's own frame
+export const sampleHyperbolaBranch = (a: number, b: number, sign: number, range = 2.5, step = 0.1): Coordinates[] => {
+  const n = Math.round(2 * range / step);
+  return Array.from({ length: n + 1 }, (_, i) => {
+    const t = -range + i * step;
+    return { x: sign * a * Math.cosh(t), y: b * Math.sinh(t) };
+  });
+};
+
+// Spacing of the grid lines: every unit when zoomed in, every 5 units when zoomed out
+export const getGridStep = (k: number) => (k >= 20 ? 1 : 5);
+
+// Grid line positions in the bounds
+export const getGridTicks = (bounds: ViewBounds, k: number) => {
+  const step = getGridStep(k);
+  const ticks = (from: number, to: number) => {
+    const values: number[] = [];
+    const start = Math.floor(from / step) * step;
+    const end = Math.ceil(to / step) * step;
+    for (let i = start; i <= end; i += step) values.push(parseFloat(i.toFixed(2)));
+    return values;
+  };
+  return { step, xs: ticks(bounds.left, bounds.right), ys: ticks(bounds.top, bounds.bottom) };
+};
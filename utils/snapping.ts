@@ -0,0 +1,127 @@
+import { GeoEntity, GeoPoint, ObjectType, SnapKind, SnapSettings, Coordinates } from '../types';
+import { closestPointOnLine, closestPointOnConic, intersectLines, intersectLineConic, intersectConics, isLineAtInfinity } from './math';
+import { isLinear, isConicLike, isShown, isOnExtent, clampToExtent, asConic } from './objects';
+import { buildPoint, buildPointOnLine, buildPointOnConic, buildIntersections, numberedName } from './constructions';
+import { getGridStep } from './render';
+
+// --- Snapping ---
+// Where a click of the Point tool lands. Within `SNAP_RADIUS` pixels of the cursor, an existing
+// point wins over an intersection, an intersection over a line or conic, and those over a grid
+// node; the nearest target of the winning kind is taken.
+
+export const SNAP_RADIUS = 10;
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = { grid: true, points: true, objects: true, intersections: true };
+
+export interface SnapTarget {
+  kind: SnapKind;
+  x: number;
+  y: number;
+  // The existing point, the line or conic, or the two intersecting objects (none for the grid)
+  ids: string[];
+  // Which of the intersections of a line and a conic, or of two conics (as numbered by the solver)
+  solutionIndex?: number;
+}
+
+// Closest point of a line or conic to (x, y), on the drawn part of segments and rays
+const closestPointOn = (obj: GeoEntity, x: number, y: number): Coordinates | null => {
+  if (isLinear(obj)) return isLineAtInfinity(obj) ? null : clampToExtent(obj, closestPointOnLine(x, y, obj));
+  if (isConicLike(obj)) return closestPointOnConic(x, y, asConic(obj));
+  return null;
+};
+
+// Finite intersections of two objects, with the solution index the solver gives each of them.
+// Intersections off a segment or ray are left out.
+const intersectionsOf = (first: GeoEntity, second: GeoEntity): { p: Coordinates; solutionIndex?: number }[] => {
+  const finite = (p: { x: number; y: number; w?: number }) => p.w !== 0 && isFinite(p.x) && isFinite(p.y);
+  if (isLinear(first) && isLinear(second)) {
+    const p = intersectLines(first, second);
+    return p && finite(p) && isOnExtent(first, p) && isOnExtent(second, p) ? [{ p }] : [];
+  }
+  const line = isLinear(first) ? first : isLinear(second) ? second : null;
+  const conic = isConicLike(first) ? first : isConicLike(second) ? second : null;
+  if (line && conic) {
+    return intersectLineConic(line, asConic(conic))
+      .map((p, i) => ({ p, solutionIndex: i }))
+      .filter(({ p }) => finite(p) && isOnExtent(line, p));
+  }
+  if (isConicLike(first) && isConicLike(second)) {
+    return intersectConics(asConic(first), asConic(second)).map((p, i) => ({ p, solutionIndex: i }));
+  }
+  return [];
+};
+
+// The snap target for the cursor at world (x, y) at zoom `k`, or null to place the point as is
+export const findSnap = (x: number, y: number, objects: GeoEntity[], settings: SnapSettings, k: number): SnapTarget | null => {
+  const radius = SNAP_RADIUS / k;
+  const distance = (p: Coordinates) => Math.hypot(p.x - x, p.y - y);
+  const nearest = (targets: SnapTarget[]) => targets
+    .filter(t => distance(t) <= radius)
+    .reduce<SnapTarget | null>((best, t) => (!best || distance(t) < distance(best) ? t : best), null);
+  const shown = objects.filter(isShown);
+
+  if (settings.points) {
+    const point = nearest(shown
+      .filter((o): o is GeoPoint => o.type === ObjectType.POINT && o.w !== 0)
+      .map(o => ({ kind: SnapKind.POINT, x: o.x, y: o.y, ids: [o.id] })));
+    if (point) return point;
+  }
+
+  // Lines and conics passing near the cursor; an intersection near it lies on two of them
+  const curves = settings.objects || settings.intersections
+    ? shown
+      .map(obj => ({ obj, foot: closestPointOn(obj, x, y) }))
+      .filter(({ foot }) => foot && distance(foot) <= radius)
+    : [];
+
+  if (settings.intersections) {
+    const candidates: SnapTarget[] = [];
+    curves.forEach((a, i) => curves.slice(i + 1).forEach(b => {
+      intersectionsOf(a.obj, b.obj).forEach(({ p, solutionIndex }) => {
+        candidates.push({ kind: SnapKind.INTERSECTION, x: p.x, y: p.y, ids: [a.obj.id, b.obj.id], solutionIndex });
+      });
+    }));
+    const intersection = nearest(candidates);
+    if (intersection) return intersection;
+  }
+
+  if (settings.objects) {
+    const onObject = nearest(curves.map(({ obj, foot }) => ({ kind: SnapKind.OBJECT, x: foot!.x, y: foot!.y, ids: [obj.id] })));
+    if (onObject) return onObject;
+  }
+
+  if (settings.grid) {
+    const step = getGridStep(k);
+    const node = { kind: SnapKind.GRID, x: Math.round(x / step) * step, y: Math.round(y / step) * step, ids: [] };
+    if (distance(node) <= radius) return node;
+  }
+
+  return null;
+};
+
+// The point the Point tool adds for `target` (a free point at (x, y) without one). Snapping to an
+// existing point adds nothing, so the result is null.
+export const buildSnappedPoint = (target: SnapTarget | null, x: number, y: number, objects: GeoEntity[]): GeoPoint | null => {
+  const name = numberedName('P', ObjectType.POINT, objects);
+  if (!target) return buildPoint(name, x, y);
+  const inputs = target.ids.map(id => objects.find(o => o.id === id));
+  switch (target.kind) {
+    case SnapKind.POINT:
+      return null;
+    case SnapKind.GRID:
+      return buildPoint(name, target.x, target.y);
+    case SnapKind.OBJECT: {
+      const [obj] = inputs;
+      if (isLinear(obj)) return buildPointOnLine(name, obj, target.x, target.y);
+      if (isConicLike(obj)) return buildPointOnConic(name, obj, target.x, target.y);
+      return buildPoint(name, x, y);
+    }
+    case SnapKind.INTERSECTION: {
+      const [first, second] = inputs;
+      if (!first || !second) return buildPoint(name, x, y);
+      // Only the intersection under the cursor, not its siblings
+      const points = buildIntersections(first, second);
+      return points.find(p => p.solutionIndex === target.solutionIndex) ?? points[0];
+    }
+  }
+};
@@ -0,0 +1,587 @@
+import { GeoEntity, ObjectType, GeoPoint, GeoLine, GeoSegment, GeoRay, GeoCircle, GeoLocus, GeoTransform, ConicFeature, CircleDefinition, Coordinates } from '../types';
+import { updateConicCoefficients, calculatePolarLineCoeffs, calculatePoleOfLine, closestPointOnLine, closestPointOnConic, intersectLines, getLineFromPointAndAngle, getLineFromTwoPoints, intersectLineConic, intersectConics, conicThroughFivePoints, generalToStandardConic, getConicFeatures, isLineAtInfinity, fitConic, pointAtLineParameter, harmonicConjugate, circumcircle, getCircleCoefficients, homographyFromPoints, transformPoint, transformHomogeneous, transformLine, transformConic } from './math';
+import { isLinear, isConicLike, asConic, isOnExtent, clampToExtent, LinearEntity, ConicEntity } from './objects';
+import { computeMeasure } from './measurements';
+import { applyBindings, parameterScope } from './parameters';
+import { topologicalOrder, buildDependencyGraph, collectDependents, collectAncestors } from './graph';
+
+// Moves a dependent point to a computed position (finite, or at infinity when w = 0)
+const placePoint = (obj: GeoPoint, p: { x: number; y: number; w?: number }): GeoPoint => ({
+    ...obj, x: p.x, y: p.y, w: p.w, hidden: false
+});
+
+// The focus/vertex/directrix/axis an object refers to, or null if the conic has no such feature
+const findConicFeature = (obj: GeoPoint | GeoLine, entityMap: Map<string, GeoEntity>) => {
+    const conic = entityMap.get(obj.dependencies?.[0] ?? '');
+    if (!isConicLike(conic) || conic.hidden) return null;
+    const features = getConicFeatures(asConic(conic));
+    const list = {
+        [ConicFeature.FOCUS]: features.foci,
+        [ConicFeature.VERTEX]: features.vertices,
+        [ConicFeature.DIRECTRIX]: features.directrices,
+        [ConicFeature.AXIS]: features.axes,
+    }[obj.conicFeature!];
+    return list[obj.solutionIndex ?? 0] ?? null;
+};
+
+// --- Intersection Branches ---
+// Line–conic and conic–conic solutions come in an order that can change as the inputs move (the
+// two roots swap while a pivot line turns), so the points on the same inputs are assigned
+// together. Points not placed yet (or reset) take the solution at their `solutionIndex`; tracked
+// points share the rest so that their total distance to their last positions is smallest.
+
+// Cost of leaving a point without a solution, and of matching a finite point with one at infinity
+const BRANCH_UNMATCHED = 1e9;
+const BRANCH_FAR = 1e6;
+
+const isIntersectionPoint = (obj: GeoEntity): obj is GeoPoint =>
+    obj.type === ObjectType.POINT && !obj.isFree && obj.solutionIndex !== undefined && !obj.conicFeature
+    && !obj.harmonicConjugate && !obj.transformImage && obj.dependencies?.length === 2;
+
+// The intersection points on the same two inputs as `point`, itself included, in branch order
+export const branchSiblings = (point: GeoEntity, entities: Iterable<GeoEntity>): GeoPoint[] => {
+    if (!isIntersectionPoint(point)) return [];
+    const [d1, d2] = point.dependencies!;
+    const siblings = Array.from(entities).filter((o): o is GeoPoint =>
+        isIntersectionPoint(o) && o.id !== point.id && o.dependencies!.includes(d1) && o.dependencies!.includes(d2));
+    return [point, ...siblings].sort((a, b) => a.solutionIndex! - b.solutionIndex! || (a.id < b.id ? -1 : 1));
+};
+
+const branchDistance = (p: { x: number; y: number; w?: number }, q: { x: number; y: number; w?: number }) => {
+    if (p.w !== 0 && q.w !== 0) return Math.hypot(p.x - q.x, p.y - q.y);
+    if (p.w !== 0 || q.w !== 0) return BRANCH_FAR;
+    // Directions at infinity are only defined up to sign
+    return Math.min(Math.hypot(p.x - q.x, p.y - q.y), Math.hypot(p.x + q.x, p.y + q.y));
+};
+
+// Solution index of every point of a group (missing when there are fewer solutions than points)
+const assignBranches = (group: GeoPoint[], solutions: { x: number; y: number; w?: number }[]) => {
+    const result = new Map<string, number>();
+    const taken = new Set<number>();
+    group.filter(p => !p.branchTracked).forEach(p => {
+        const i = p.solutionIndex!;
+        if (i < solutions.length && !taken.has(i)) {
+            result.set(p.id, i);
+            taken.add(i);
+        }
+    });
+
+    // At most 4 points and 4 solutions: try every assignment, preferring the first one found on ties
+    const tracked = group.filter(p => p.branchTracked);
+    let best = { cost: Infinity, picks: [] as number[] };
+    const search = (k: number, picks: number[], cost: number) => {
+        if (cost >= best.cost) return;
+        if (k === tracked.length) {
+            best = { cost, picks };
+            return;
+        }
+        solutions.forEach((s, i) => {
+            if (!taken.has(i) && !picks.includes(i)) search(k + 1, [...picks, i], cost + branchDistance(tracked[k], s));
+        });
+        search(k + 1, [...picks, -1], cost + BRANCH_UNMATCHED);
+    };
+    search(0, [], 0);
+    tracked.forEach((p, k) => {
+        if (best.picks[k] >= 0) result.set(p.id, best.picks[k]);
+    });
+    return result;
+};
+
+// --- Locus ---
+const LOCUS_SAMPLES = 120;
+// Extra samples a locus may spend on refining large steps
+const LOCUS_REFINE_BUDGET = 400;
+// Traced positions farther out than this are treated as gone (near infinity)
+const LOCUS_MAX_COORD = 1e4;
+// Half-width (in units) of the stretch of a line that gets half of the samples
+const LOCUS_LINE_SPAN = 5;
+
+// The traced position for one driver parameter (null where the point is gone), and the solved
+// path objects it came from
+interface LocusSample {
+    p: Coordinates | null;
+    state: GeoEntity[];
+}
+
+// A point sliding on a line, or a line turning around its pivot (unless bound to parameters)
+export const isLocusDriver = (obj: GeoEntity) =>
+    (obj.type === ObjectType.POINT && !!obj.onLineId) ||
+    (obj.type === ObjectType.LINE && !!obj.pivotPointId && typeof obj.angle === 'number' && !obj.bindings?.angle);
+
+// Moves the driver to parameter t in [0, 1]. A line driver turns through 180 degrees (closed);
+// a point driver covers its whole line through t -> tan(pi (t - 1/2)) (open at both ends),
+// a segment from end to end, and a ray from its start outwards.
+const locusDriverPlacement = (driver: GeoEntity, entityMap: Map<string, GeoEntity>) => {
+    if (driver.type === ObjectType.LINE && driver.pivotPointId && typeof driver.angle === 'number') {
+        const start = driver.angle;
+        return { closed: true, place: (t: number) => solveEntity({ ...driver, angle: start + Math.PI * t }, entityMap) };
+    }
+    if (driver.type === ObjectType.POINT && driver.onLineId) {
+        const line = entityMap.get(driver.onLineId);
+        if (!isLinear(line) || line.hidden || isLineAtInfinity(line)) return null;
+        if (line.type !== ObjectType.LINE) {
+            const { start, end } = line;
+            const stretch = (t: number) => (line.type === ObjectType.SEGMENT ? t : LOCUS_LINE_SPAN * Math.tan(Math.PI * t / 2));
+            return {
+                closed: false,
+                place: (t: number): GeoEntity => {
+                    const s = stretch(t);
+                    return { ...driver, x: start.x + s * (end.x - start.x), y: start.y + s * (end.y - start.y), w: undefined, hidden: false };
+                },
+            };
+        }
+        // Line parameters do not depend on the driver's position, so the samples do not
+        // shift while the driver itself is dragged
+        return {
+            closed: false,
+            place: (t: number): GeoEntity => {
+                const s = LOCUS_LINE_SPAN * Math.tan(Math.PI * (t - 0.5));
+                return { ...driver, ...pointAtLineParameter(line, s), w: undefined, hidden: false };
+            },
+        };
+    }
+    return null;
+};
+
+// Samples the traced point while the driver runs through its range. Objects between the two
+// are re-solved for every sample; steps much longer than usual are bisected, and split the
+// curve where they do not shrink (asymptotes, jumps between intersection branches).
+const computeLocus = (obj: GeoLocus, entityMap: Map<string, GeoEntity>): GeoLocus => {
+    const gone = { ...obj, samples: [], conicFit: undefined, hidden: true };
+    const [driverId, tracedId] = obj.dependencies ?? [];
+    const driver = entityMap.get(driverId ?? '');
+    const traced = entityMap.get(tracedId ?? '');
+    if (!driver || traced?.type !== ObjectType.POINT || !isLocusDriver(driver)) return gone;
+
+    const placement = locusDriverPlacement(driver, entityMap);
+    if (!placement) return gone;
+
+    // Everything that depends on the driver and defines the traced point
+    const entities = Array.from(entityMap.values());
+    const graph = buildDependencyGraph(entities);
+    const downstream = collectDependents(graph, [driver.id]);
+    if (!downstream.has(traced.id)) return gone;
+    const upstream = collectAncestors(graph, [traced.id]);
+    const path = topologicalOrder(entities, graph).order
+        .filter(e => e.id !== driver.id && downstream.has(e.id) && upstream.has(e.id));
+
+    // Scratch copy; every sample overwrites the driver and the whole path. Intersection points
+    // follow their branches from the path state a sample is solved from: the previous sample,
+    // or for a refinement the sample its step starts at.
+    const local = new Map(entityMap);
+    const traceAt = (t: number, from: GeoEntity[]): LocusSample => {
+        from.forEach(e => local.set(e.id, e));
+        local.set(driver.id, placement.place(t));
+        const state = path.map(e => {
+            const solved = solveEntity(local.get(e.id)!, local);
+            local.set(e.id, solved);
+            return solved;
+        });
+        const p = local.get(traced.id) as GeoPoint;
+        if (p.hidden || p.w === 0 || !(Math.abs(p.x) < LOCUS_MAX_COORD) || !(Math.abs(p.y) < LOCUS_MAX_COORD)) return { p: null, state };
+        return { p: { x: p.x, y: p.y }, state };
+    };
+
+    const ts = Array.from({ length: LOCUS_SAMPLES + (placement.closed ? 1 : 0) }, (_, i) =>
+        placement.closed ? i / LOCUS_SAMPLES : (i + 0.5) / LOCUS_SAMPLES);
+    let previous = path;
+    const traces = ts.map(t => {
+        const sample = traceAt(t, previous);
+        previous = sample.state;
+        return sample;
+    });
+    const coarse = traces.map(s => s.p);
+
+    const steps: number[] = [];
+    coarse.forEach((p, i) => {
+        const q = coarse[i + 1];
+        if (p && q) steps.push(Math.hypot(q.x - p.x, q.y - p.y));
+    });
+    steps.sort((a, b) => a - b);
+    const limit = 4 * (steps[Math.floor(steps.length / 2)] ?? 0) + 1e-9;
+
+    // Points strictly between two samples; null marks a break
+    let budget = LOCUS_REFINE_BUDGET;
+    const refine = (t0: number, p0: Coordinates, from: GeoEntity[], t1: number, p1: Coordinates, depth: number): (Coordinates | null)[] => {
+        // Far out, points move fast but a genuine jump still spans a large part of their distance
+        const far = Math.max(Math.hypot(p0.x, p0.y), Math.hypot(p1.x, p1.y));
+        if (Math.hypot(p1.x - p0.x, p1.y - p0.y) <= limit + 0.05 * far) return [];
+        if (depth === 0 || budget <= 0) return [null];
+        budget--;
+        const tm = (t0 + t1) / 2;
+        const { p: pm, state } = traceAt(tm, from);
+        if (!pm) return [null];
+        return [...refine(t0, p0, from, tm, pm, depth - 1), pm, ...refine(tm, pm, state, t1, p1, depth - 1)];
+    };
+
+    const sequence: (Coordinates | null)[] = [];
+    coarse.forEach((p, i) => {
+        sequence.push(p);
+        const q = coarse[i + 1];
+        if (p && q) sequence.push(...refine(ts[i], p, traces[i].state, ts[i + 1], q, 6));
+    });
+
+    const samples: Coordinates[][] = [];
+    let current: Coordinates[] = [];
+    [...sequence, null].forEach(p => {
+        if (p) {
+            current.push(p);
+        } else {
+            if (current.length > 1) samples.push(current);
+            current = [];
+        }
+    });
+
+    if (samples.length === 0) return gone;
+    const conicFit = fitConic(samples.flat()) ?? undefined;
+    return { ...obj, samples, conicFit, hidden: false };
+};
+
+// A locus costs hundreds of re-solves of its path, while most solves (drags and animation
+// frames elsewhere) leave everything it is built from unchanged. Each locus keeps its last result
+// with the solved state of its ancestors, and is traced again only when that state differs.
+const locusCache = new Map<string, { key: string; locus: GeoLocus }>();
+
+const solveLocus = (obj: GeoLocus, entityMap: Map<string, GeoEntity>): GeoLocus => {
+    const entities = Array.from(entityMap.values());
+    const ancestors = collectAncestors(buildDependencyGraph(entities), [obj.id]);
+    ancestors.delete(obj.id);
+    const key = JSON.stringify([obj.dependencies, entities.filter(e => ancestors.has(e.id))]);
+    const cached = locusCache.get(obj.id);
+    if (cached?.key === key) {
+        const { samples, conicFit, hidden } = cached.locus;
+        return { ...obj, samples, conicFit, hidden };
+    }
+    const locus = computeLocus(obj, entityMap);
+    locusCache.set(obj.id, { key, locus });
+    return locus;
+};
+
+// --- Segments, Rays and Circles ---
+const solveBoundedLine = (obj: GeoSegment | GeoRay, entityMap: Map<string, GeoEntity>): GeoEntity => {
+    const p1 = entityMap.get(obj.p1Id);
+    const p2 = entityMap.get(obj.p2Id);
+    // A segment needs two finite ends; a ray may point at a point at infinity
+    if (p1?.type !== ObjectType.POINT || p2?.type !== ObjectType.POINT || p1.hidden || p2.hidden
+        || p1.w === 0 || (obj.type === ObjectType.SEGMENT && p2.w === 0)) {
+        return { ...obj, hidden: true };
+    }
+    const { a, b, c } = getLineFromTwoPoints(p1, p2);
+    if (a === 0 && b === 0) return { ...obj, hidden: true };
+    const start = { x: p1.x, y: p1.y };
+    const end = p2.w === 0 ? { x: p1.x + p2.x, y: p1.y + p2.y } : { x: p2.x, y: p2.y };
+    return { ...obj, a, b, c, start, end, hidden: false };
+};
+
+const solveCircle = (obj: GeoCircle, entityMap: Map<string, GeoEntity>): GeoEntity => {
+    const points = (obj.dependencies ?? []).map(id => entityMap.get(id));
+    if (!points.every((p): p is GeoPoint => p?.type === ObjectType.POINT && !p.hidden && p.w !== 0)) {
+        return { ...obj, hidden: true };
+    }
+    const [p1, p2, p3] = points;
+    let circle: { cx: number; cy: number; r: number } | null = null;
+    if (obj.circleDefinition === CircleDefinition.CENTER_POINT && p1 && p2) {
+        circle = { cx: p1.x, cy: p1.y, r: Math.hypot(p2.x - p1.x, p2.y - p1.y) };
+    } else if (obj.circleDefinition === CircleDefinition.CENTER_RADIUS && p1) {
+        circle = { cx: p1.x, cy: p1.y, r: obj.radius };
+    } else if (obj.circleDefinition === CircleDefinition.THREE_POINTS && p1 && p2 && p3) {
+        circle = circumcircle(p1, p2, p3);
+    }
+    if (!circle || !(circle.r > 0)) return { ...obj, hidden: true };
+    const { cx, cy, r } = circle;
+    return { ...obj, cx, cy, radius: r, coeffs: getCircleCoefficients(cx, cy, r), hidden: false };
+};
+
+// --- Projective Transformations ---
+const solveTransform = (obj: GeoTransform, entityMap: Map<string, GeoEntity>): GeoEntity => {
+    const points = (obj.dependencies ?? []).map(id => entityMap.get(id));
+    if (points.length !== 8 || !points.every((p): p is GeoPoint => p?.type === ObjectType.POINT && !p.hidden)) {
+        return { ...obj, matrix: null, hidden: true };
+    }
+    const matrix = homographyFromPoints(points.slice(0, 4), points.slice(4));
+    return { ...obj, matrix, hidden: !matrix };
+};
+
+// Maps a locus polyline by polyline, breaking it where it crosses the line sent to infinity
+const transformSamples = (h: number[][], samples: Coordinates[][]) => {
+    const result: Coordinates[][] = [];
+    samples.forEach(polyline => {
+        let current: Coordinates[] = [];
+        let side = 0;
+        polyline.forEach(p => {
+            const [x, y, w] = transformHomogeneous(h, p);
+            const q = { x: x / w, y: y / w };
+            if (Math.sign(w) !== side || !(Math.abs(q.x) < LOCUS_MAX_COORD) || !(Math.abs(q.y) < LOCUS_MAX_COORD)) {
+                if (current.length > 1) result.push(current);
+                current = [];
+                side = Math.sign(w);
+            }
+            if (Math.abs(q.x) < LOCUS_MAX_COORD && Math.abs(q.y) < LOCUS_MAX_COORD) current.push(q);
+        });
+        if (current.length > 1) result.push(current);
+    });
+    return result;
+};
+
+// The image of `dependencies[1]` under the transform `dependencies[0]`. Points, lines and conics
+// map to objects of the same kind (rays to their whole line, circles to conics); a segment
+// keeps its ends only while it does not cross the line sent to infinity.
+const solveImage = (obj: GeoEntity, entityMap: Map<string, GeoEntity>): GeoEntity => {
+    const [transformId, preimageId] = obj.dependencies ?? [];
+    const transform = entityMap.get(transformId ?? '');
+    const preimage = entityMap.get(preimageId ?? '');
+    if (transform?.type !== ObjectType.TRANSFORM || !transform.matrix || !preimage || preimage.hidden) {
+        return { ...obj, hidden: true };
+    }
+    const h = transform.matrix;
+
+    if (obj.type === ObjectType.POINT && preimage.type === ObjectType.POINT) {
+        const p = transformPoint(h, preimage);
+        return p ? placePoint(obj, p) : { ...obj, hidden: true };
+    }
+    if (obj.type === ObjectType.LINE && isLinear(preimage)) {
+        const line = transformLine(h, preimage);
+        return line ? { ...obj, ...line, hidden: false } : { ...obj, hidden: true };
+    }
+    if (obj.type === ObjectType.SEGMENT && preimage.type === ObjectType.SEGMENT) {
+        const [s, e] = [preimage.start, preimage.end].map(p => transformHomogeneous(h, p));
+        const line = transformLine(h, preimage);
+        if (!line || !(s[2] * e[2] > 0)) return { ...obj, hidden: true };
+        return { ...obj, ...line, start: { x: s[0] / s[2], y: s[1] / s[2] }, end: { x: e[0] / e[2], y: e[1] / e[2] }, hidden: false };
+    }
+    if (obj.type === ObjectType.CONIC && isConicLike(preimage)) {
+        const coeffs = transformConic(h, preimage);
+        return { ...obj, ...generalToStandardConic(coeffs), coeffs, hidden: false };
+    }
+    if (obj.type === ObjectType.LOCUS && preimage.type === ObjectType.LOCUS) {
+        const samples = transformSamples(h, preimage.samples);
+        if (samples.length === 0) return { ...obj, samples, conicFit: undefined, hidden: true };
+        const conicFit = preimage.conicFit ? transformConic(h, { coeffs: preimage.conicFit }) : undefined;
+        return { ...obj, samples, conicFit, hidden: false };
+    }
+    return { ...obj, hidden: true };
+};
+
+// --- Reactive Geometry Solver ---
+// Recomputes a single object from its (already solved) definition inputs, after setting its bound
+// fields from the current parameter values. Free objects are returned as they are, apart from
+// conic coefficients which are always regenerated from the standard parameters.
+export const solveEntity = (obj: GeoEntity, entityMap: Map<string, GeoEntity>): GeoEntity =>
+    solveDefinition(obj.bindings ? applyBindings(obj, parameterScope(entityMap.values())) : obj, entityMap);
+
+const solveDefinition = (obj: GeoEntity, entityMap: Map<string, GeoEntity>): GeoEntity => {
+    // Image under a projective transformation (point, line, segment, conic or locus)
+    if (obj.transformImage) {
+        return solveImage(obj, entityMap);
+    }
+
+    if (obj.type === ObjectType.TRANSFORM) {
+        return solveTransform(obj, entityMap);
+    }
+
+    if (obj.type === ObjectType.LOCUS) {
+        return solveLocus(obj, entityMap);
+    }
+
+    // Measurement (distance, angle, area, slope)
+    if (obj.type === ObjectType.MEASURE) {
+        const result = computeMeasure(obj, entityMap);
+        return result ? { ...obj, ...result, hidden: false } : { ...obj, hidden: true };
+    }
+
+    // Segment or Ray between two points
+    if (obj.type === ObjectType.SEGMENT || obj.type === ObjectType.RAY) {
+        return solveBoundedLine(obj, entityMap);
+    }
+
+    if (obj.type === ObjectType.CIRCLE) {
+        return solveCircle(obj, entityMap);
+    }
+
+    if (obj.type === ObjectType.CONIC) {
+        // Conic through Five Points
+        if (obj.dependencies && obj.dependencies.length === 5) {
+            const points = obj.dependencies.map(id => entityMap.get(id));
+            if (points.every(p => p?.type === ObjectType.POINT)) {
+                const coeffs = conicThroughFivePoints(points as GeoPoint[]);
+                if (!coeffs) {
+                    // Four collinear (or coincident) points: no unique conic
+                    return { ...obj, coeffs: { A: 0, B: 0, C: 0, D: 0, E: 0, F: 0 }, hidden: true };
+                }
+                return { ...obj, ...generalToStandardConic(coeffs), coeffs, hidden: false };
+            }
+        }
+        return updateConicCoefficients(obj);
+    }
+
+    if (obj.type === ObjectType.LINE) {
+        // Directrix or Axis of a Conic
+        if (obj.conicFeature) {
+            const line = findConicFeature(obj, entityMap) as { a: number; b: number; c: number } | null;
+            return line ? { ...obj, ...line, hidden: false } : { ...obj, hidden: true };
+        }
+
+        // Pivot Line (Rotating around a point)
+        if (obj.pivotPointId && typeof obj.angle === 'number') {
+            const pivot = entityMap.get(obj.pivotPointId);
+            // A pivot at infinity does not fix a line for a given angle; keep the last position
+            if (pivot && pivot.type === ObjectType.POINT && pivot.w !== 0) {
+                const { a, b, c } = getLineFromPointAndAngle(pivot, obj.angle);
+                return { ...obj, a, b, c };
+            }
+        }
+
+        // Line defined by Two Points
+        if (obj.p1Id && obj.p2Id) {
+            const p1 = entityMap.get(obj.p1Id) as GeoPoint;
+            const p2 = entityMap.get(obj.p2Id) as GeoPoint;
+            if (p1 && p2) {
+                const { a, b, c } = getLineFromTwoPoints(p1, p2);
+                return { ...obj, a, b, c };
+            }
+        }
+
+        // Polar Line (Dependent on Point + Conic)
+        if (obj.dependencies && obj.dependencies.length === 2) {
+            const d1 = entityMap.get(obj.dependencies[0]);
+            const d2 = entityMap.get(obj.dependencies[1]);
+
+            if (d1 && d2) {
+                let point: GeoPoint | null = null;
+                let conic: ConicEntity | null = null;
+
+                if (d1.type === ObjectType.POINT && isConicLike(d2)) {
+                    point = d1; conic = d2;
+                } else if (isConicLike(d1) && d2.type === ObjectType.POINT) {
+                    conic = d1; point = d2;
+                }
+
+                if (point && conic) {
+                    const { a, b, c } = calculatePolarLineCoeffs(point.x, point.y, asConic(conic), point.w ?? 1);
+                    return { ...obj, a, b, c };
+                }
+            }
+        }
+    }
+
+    if (obj.type === ObjectType.POINT) {
+        // Focus or Vertex of a Conic
+        if (obj.conicFeature) {
+            const point = findConicFeature(obj, entityMap) as { x: number; y: number } | null;
+            return point ? placePoint(obj, point) : { ...obj, hidden: true };
+        }
+
+        // Harmonic Conjugate (Dependent on three collinear points)
+        if (obj.harmonicConjugate) {
+            const [a, b, c] = (obj.dependencies ?? []).map(id => entityMap.get(id));
+            if (a?.type === ObjectType.POINT && b?.type === ObjectType.POINT && c?.type === ObjectType.POINT
+                && !a.hidden && !b.hidden && !c.hidden) {
+                const point = harmonicConjugate(a, b, c);
+                if (point) return placePoint(obj, point);
+            }
+            return { ...obj, hidden: true };
+        }
+
+        // Intersection of Line and Conic, or of two Conics
+        if (!obj.isFree && obj.dependencies && obj.dependencies.length === 2 && obj.solutionIndex !== undefined) {
+            const d1 = entityMap.get(obj.dependencies[0]);
+            const d2 = entityMap.get(obj.dependencies[1]);
+
+            let line: LinearEntity | null = null;
+            let conic: ConicEntity | null = null;
+
+            if (isLinear(d1) && isConicLike(d2)) {
+                line = d1; conic = d2;
+            } else if (isConicLike(d1) && isLinear(d2)) {
+                conic = d1; line = d2;
+            }
+
+            let solutions: { x: number; y: number; w?: number }[] | null = null;
+            if (line && conic) {
+                solutions = intersectLineConic(line, asConic(conic));
+            } else if (isConicLike(d1) && isConicLike(d2)) {
+                // Intersection of two Conics (up to 4 solutions)
+                solutions = intersectConics(asConic(d1), asConic(d2));
+            }
+
+            if (solutions) {
+                const index = assignBranches(branchSiblings(obj, entityMap.values()), solutions).get(obj.id);
+                // No real intersection left for this point; it picks up its branch again from its
+                // last position when the solutions come back
+                if (index === undefined) return { ...obj, hidden: true };
+                // Solutions off a segment or ray keep following their branch but are not shown
+                const solution = solutions[index];
+                return { ...placePoint(obj, solution), branchTracked: true, hidden: !!line && !isOnExtent(line, solution) };
+            }
+        }
+
+        // Pole of a Line (Dependent on Line + Conic)
+        if (!obj.isFree && obj.dependencies && obj.dependencies.length === 2 && obj.solutionIndex === undefined) {
+            const d1 = entityMap.get(obj.dependencies[0]);
+            const d2 = entityMap.get(obj.dependencies[1]);
+
+            let line: LinearEntity | null = null;
+            let conic: ConicEntity | null = null;
+
+            if (isLinear(d1) && isConicLike(d2)) {
+                line = d1; conic = d2;
+            } else if (isConicLike(d1) && isLinear(d2)) {
+                conic = d1; line = d2;
+            }
+
+            if (line && conic) {
+                const pole = calculatePoleOfLine(line, asConic(conic));
+                return pole ? placePoint(obj, pole) : { ...obj, hidden: true };
+            }
+        }
+
+        // Constrained to Conic
+        if (obj.onConicId) {
+            const conic = entityMap.get(obj.onConicId);
+            if (isConicLike(conic)) {
+                const foot = conic.hidden ? null : closestPointOnConic(obj.x, obj.y, asConic(conic));
+                return foot ? placePoint(obj, foot) : { ...obj, hidden: true };
+            }
+        }
+
+        // Constrained to Line
+        if (obj.onLineId) {
+            const line = entityMap.get(obj.onLineId);
+            if (isLinear(line)) {
+                const { x, y } = clampToExtent(line, closestPointOnLine(obj.x, obj.y, line));
+                return { ...obj, x, y };
+            }
+        }
+
+        // Intersection of Two Lines
+        if (!obj.isFree && obj.dependencies && obj.dependencies.length === 2 && obj.solutionIndex === undefined) {
+            const l1 = entityMap.get(obj.dependencies[0]);
+            const l2 = entityMap.get(obj.dependencies[1]);
+            if (isLinear(l1) && isLinear(l2)) {
+                // Parallel lines meet at infinity; only coincident lines leave the point undefined
+                const intersection = intersectLines(l1, l2);
+                if (intersection && isOnExtent(l1, intersection) && isOnExtent(l2, intersection)) {
+                    return placePoint(obj, intersection);
+                } else {
+                    return { ...obj, hidden: true };
+                }
+            }
+        }
+    }
+
+    return obj;
+};
+
+// Recomputes every object once, in dependency order, so arbitrarily deep constructions
+// (e.g. a self-polar triangle built on a tangent point built on an intersection)
+// are up to date after a single call. The returned array keeps the input order.
+export const solveGeometry = (inputEntities: GeoEntity[]): GeoEntity[] => {
+    const { order } = topologicalOrder(inputEntities);
+    const entityMap = new Map(inputEntities.map(e => [e.id, e]));
+
+    order.forEach(obj => {
+        entityMap.set(obj.id, solveEntity(obj, entityMap));
+    });
+
+    return inputEntities.map(e => entityMap.get(e.id)!);
+};
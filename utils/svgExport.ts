@@ -0,0 +1,175 @@
+import { GeoEntity, ObjectType, ConicType, Coordinates, ViewTransform, MeasureType } from '../types';
+import { isLineAtInfinity, isDegenerateConicType, splitDegenerateConic, getConicMatrix } from './math';
+import { formatMeasure } from './measurements';
+import { isShown } from './objects';
+import { getViewBounds, getLineEndpoints, getLineAtInfinityFrame, getPointAtInfinityMarkers, getRayEnd, sampleParabola, sampleHyperbolaBranch, getGridTicks, strokeDashArray } from './render';
+
+// --- SVG Export ---
+// Produces a standalone SVG of the visible objects in the current viewport. Shapes, colors and
+// stroke widths follow `GeometryCanvas`, without selection highlights or hit-test strokes.
+
+export interface SvgExportOptions {
+  grid: boolean;
+  axes: boolean;
+  labels: boolean;
+  // Fill with the dark canvas color; otherwise the background is transparent
+  background: boolean;
+}
+
+export const DEFAULT_SVG_EXPORT_OPTIONS: SvgExportOptions = { grid: true, axes: true, labels: true, background: true };
+
+export const SVG_MIME_TYPE = 'image/svg+xml';
+
+const CANVAS_BACKGROUND = '#030712';
+const GRID_COLORS = { axis: '#9ca3af', major: '#4b5563', minor: '#374151' };
+
+const num = (v: number) => parseFloat(v.toFixed(4)).toString();
+
+const pathData = (points: Coordinates[]) =>
+  points.map((p, i) => `${i === 0 ? 'M' : 'L'}${num(p.x)},${num(p.y)}`).join('');
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const exportSvg = (objects: GeoEntity[], view: ViewTransform, width: number, height: number, options: SvgExportOptions): string => {
+  const { k } = view;
+  const bounds = getViewBounds(view, width, height);
+  const out: string[] = [];
+  const label = (x: number, y: number, text: string, color: string) => {
+    if (options.labels) {
+      out.push(`<text x="${num(x)}" y="${num(y)}" font-size="${num(12 / k)}" fill="${color}" text-anchor="middle" font-weight="bold">${escapeXml(text)}</text>`);
+    }
+  };
+  const line = (x1: number, y1: number, x2: number, y2: number, stroke: string, strokeWidth: number, dash = '') =>
+    out.push(`<line x1="${num(x1)}" y1="${num(y1)}" x2="${num(x2)}" y2="${num(y2)}" stroke="${stroke}" stroke-width="${num(strokeWidth)}"${dash}/>`);
+  // stroke-dasharray attribute of an object's stroke style (empty when solid)
+  const dashOf = (obj: GeoEntity) => {
+    const dash = strokeDashArray(obj.strokeStyle, 1 / k);
+    return dash ? ` stroke-dasharray="${dash.map(num).join(' ')}"` : '';
+  };
+
+  // Grid and axes
+  if (options.grid || options.axes) {
+    const { xs, ys } = getGridTicks(bounds, k);
+    const gridLine = (val: number, vertical: boolean) => {
+      const isAxis = Math.abs(val) < 0.001;
+      if (isAxis ? !options.axes : !options.grid) return;
+      const stroke = isAxis ? GRID_COLORS.axis : (val % 5 === 0 ? GRID_COLORS.major : GRID_COLORS.minor);
+      const strokeWidth = (isAxis ? 2 : 1) / k;
+      if (vertical) line(val, bounds.top, val, bounds.bottom, stroke, strokeWidth);
+      else line(bounds.left, val, bounds.right, val, stroke, strokeWidth);
+    };
+    xs.forEach(x => gridLine(x, true));
+    ys.forEach(y => gridLine(y, false));
+  }
+
+  const visible = objects.filter(isShown);
+
+  // Conics
+  visible.forEach(obj => {
+    if (obj.type !== ObjectType.CONIC) return;
+    const { cx, cy, a, b, rotation, conicType } = obj;
+    const color = escapeXml(obj.color);
+    const strokeWidth = 2 / k;
+    const dash = dashOf(obj);
+    const frame = `translate(${num(cx)},${num(cy)}) rotate(${num(rotation * 180 / Math.PI)})`;
+    const path = (d: string) => out.push(`<path d="${d}" transform="${frame}" fill="none" stroke="${color}" stroke-width="${num(strokeWidth)}"${dash}/>`);
+
+    if (conicType === ConicType.EMPTY) return;
+    if (conicType === ConicType.POINT) {
+      out.push(`<circle cx="${num(cx)}" cy="${num(cy)}" r="${num(7 / k)}" fill="none" stroke="${color}" stroke-width="${num(strokeWidth)}"/>`);
+    } else if (isDegenerateConicType(conicType)) {
+      const lines = splitDegenerateConic(getConicMatrix(obj));
+      if (!lines) return;
+      (conicType === ConicType.DOUBLE_LINE ? [lines[0]] : lines)
+        .filter(([la, lb, lc]) => !isLineAtInfinity({ a: la, b: lb, c: lc }))
+        .forEach(([la, lb, lc]) => {
+          const { x1, y1, x2, y2 } = getLineEndpoints(la, lb, lc, bounds);
+          line(x1, y1, x2, y2, color, conicType === ConicType.DOUBLE_LINE ? 2 * strokeWidth : strokeWidth, dash);
+        });
+    } else if (conicType === ConicType.ELLIPSE) {
+      out.push(`<ellipse cx="${num(cx)}" cy="${num(cy)}" rx="${num(a)}" ry="${num(b)}" transform="rotate(${num(rotation * 180 / Math.PI)}, ${num(cx)}, ${num(cy)})" fill="none" stroke="${color}" stroke-width="${num(strokeWidth)}"${dash}/>`);
+    } else if (conicType === ConicType.PARABOLA) {
+      path(pathData(sampleParabola(a)));
+    } else if (conicType === ConicType.HYPERBOLA) {
+      [1, -1].forEach(sign => path(pathData(sampleHyperbolaBranch(a, b, sign))));
+    }
+  });
+
+  // Circles
+  visible.forEach(obj => {
+    if (obj.type !== ObjectType.CIRCLE) return;
+    out.push(`<circle cx="${num(obj.cx)}" cy="${num(obj.cy)}" r="${num(obj.radius)}" fill="none" stroke="${escapeXml(obj.color)}" stroke-width="${num(2 / k)}"${dashOf(obj)}/>`);
+  });
+
+  // Loci
+  visible.forEach(obj => {
+    if (obj.type !== ObjectType.LOCUS) return;
+    obj.samples.forEach(polyline => {
+      out.push(`<path d="${pathData(polyline)}" fill="none" stroke="${escapeXml(obj.color)}" stroke-width="${num(2 / k)}" stroke-linejoin="round"${dashOf(obj)}/>`);
+    });
+  });
+
+  // Lines
+  visible.forEach(obj => {
+    if (obj.type !== ObjectType.LINE) return;
+    const { a, b, c } = obj;
+    const color = escapeXml(obj.color);
+    if (a === 0 && b === 0 && c === 0) return;
+    if (isLineAtInfinity(obj)) {
+      const rect = getLineAtInfinityFrame(bounds, 6 / k);
+      out.push(`<rect x="${num(rect.x)}" y="${num(rect.y)}" width="${num(rect.width)}" height="${num(rect.height)}" fill="none" stroke="${color}" stroke-width="${num(1.5 / k)}" stroke-dasharray="${num(8 / k)} ${num(6 / k)}"/>`);
+      return;
+    }
+    const { x1, y1, x2, y2 } = getLineEndpoints(a, b, c, bounds);
+    line(x1, y1, x2, y2, color, 1.5 / k, dashOf(obj));
+  });
+
+  // Segments and rays
+  visible.forEach(obj => {
+    if (obj.type !== ObjectType.SEGMENT && obj.type !== ObjectType.RAY) return;
+    const end = obj.type === ObjectType.RAY ? getRayEnd(obj.start, obj.end, bounds) : obj.end;
+    line(obj.start.x, obj.start.y, end.x, end.y, escapeXml(obj.color), 1.5 / k, dashOf(obj));
+  });
+
+  // Points
+  visible.forEach(obj => {
+    if (obj.type !== ObjectType.POINT) return;
+    const color = escapeXml(obj.color);
+    if (obj.w === 0) {
+      getPointAtInfinityMarkers(obj, bounds, 18 / k).forEach(({ x, y, dx, dy, angle }) => {
+        out.push(`<polygon points="${num(8 / k)},0 ${num(-6 / k)},${num(-6 / k)} ${num(-6 / k)},${num(6 / k)}" transform="translate(${num(x)}, ${num(y)}) rotate(${num(angle)})" fill="${color}" stroke="black" stroke-width="${num(1 / k)}"/>`);
+        label(x - dx * 16 / k, y - dy * 16 / k + 4 / k, obj.name, color);
+      });
+      return;
+    }
+    out.push(`<circle cx="${num(obj.x)}" cy="${num(obj.y)}" r="${num(5 / k)}" fill="${color}" stroke="black" stroke-width="${num(1 / k)}"/>`);
+    label(obj.x, obj.y - 10 / k, obj.name, color);
+  });
+
+  // Measurements: the annotation and its value, always labelled
+  visible.forEach(obj => {
+    if (obj.type !== ObjectType.MEASURE) return;
+    const color = escapeXml(obj.color);
+    const { shape } = obj;
+    const dash = `stroke-dasharray="${num(4 / k)} ${num(3 / k)}"`;
+    if (obj.measureType === MeasureType.AREA && shape.length === 3) {
+      out.push(`<polygon points="${shape.map(p => `${num(p.x)},${num(p.y)}`).join(' ')}" fill="${color}" fill-opacity="0.12" stroke="${color}" stroke-width="${num(1 / k)}" ${dash}/>`);
+    } else if (obj.measureType === MeasureType.ANGLE && shape.length > 1) {
+      out.push(`<path d="${pathData(shape)}" fill="none" stroke="${color}" stroke-width="${num(1.5 / k)}"/>`);
+    } else if (shape.length === 2) {
+      out.push(`<line x1="${num(shape[0].x)}" y1="${num(shape[0].y)}" x2="${num(shape[1].x)}" y2="${num(shape[1].y)}" stroke="${color}" stroke-width="${num(1.5 / k)}" ${dash}/>`);
+    }
+    out.push(`<text x="${num(obj.x)}" y="${num(obj.y)}" font-size="${num(12 / k)}" fill="${color}" stroke="${CANVAS_BACKGROUND}" stroke-width="${num(3 / k)}" paint-order="stroke" text-anchor="middle" dominant-baseline="middle" font-weight="bold" font-family="monospace">${escapeXml(`${obj.name} = ${formatMeasure(obj)}`)}</text>`);
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif">`,
+    ...(options.background ? [`<rect width="100%" height="100%" fill="${CANVAS_BACKGROUND}"/>`] : []),
+    `<g transform="translate(${num(view.x)},${num(view.y)}) scale(${num(k)})">`,
+    ...out,
+    `</g>`,
+    `</svg>`,
+  ].join('\n') + '\n';
+};
@@ -0,0 +1,248 @@
+import { GeoEntity, ObjectType, ConicType, GeoConic, MeasureType, StrokeStyle } from '../types';
+import { isLineAtInfinity, isDegenerateConicType, splitDegenerateConic, getConicMatrix } from './math';
+import { formatMeasure } from './measurements';
+import { isShown } from './objects';
+import { ViewBounds, clipLineToBounds, getLineAtInfinityFrame, getPointAtInfinityMarkers, getRayEnd } from './render';
+
+// --- TikZ Export ---
+// Turns the construction into a `tikzpicture` that compiles with plain `\usepackage{tikz}`.
+// Every object is written with its computed position, so dependent objects need no solver.
+// World coordinates have y pointing down (as on screen); TikZ y points up, so y is negated.
+
+export interface TikzExportOptions {
+  // Clipping rectangle in world coordinates
+  bounds: ViewBounds;
+  // Centimeters per world unit
+  unit: number;
+  grid: boolean;
+  axes: boolean;
+  labels: boolean;
+}
+
+export const TIKZ_MIME_TYPE = 'application/x-tex';
+
+// Fixed-point formatting (pgfmath does not read exponents), trailing zeros dropped
+const num = (v: number, digits = 4) => {
+  let s = v.toFixed(digits);
+  if (s.includes('.')) s = s.replace(/0+$/, '').replace(/\.$/, '');
+  return s === '-0' ? '0' : s;
+};
+
+// A point in TikZ coordinates
+const at = (x: number, y: number) => `(${num(x)},${num(-y)})`;
+
+// c0 + k1*e1 + k2*e2 ... without "+-" sequences; terms with a zero factor are dropped
+const affine = (c0: number, terms: [number, string][]) => {
+  let s = num(c0);
+  terms.forEach(([k, expr]) => {
+    if (Math.abs(k) < 1e-12) return;
+    s += `${k < 0 ? '-' : '+'}${num(Math.abs(k), 8)}*${expr}`;
+  });
+  return s;
+};
+
+// LaTeX-safe label text; the symbols used in measurement labels become math symbols
+const escapeLatex = (text: string) =>
+  text.replace(/[\\{}$&#%_^~∠°∞–]/g, ch => ({
+    '\\': '\\textbackslash{}', '{': '\\{', '}': '\\}', '$': '\\$', '&': '\\&',
+    '#': '\\#', '%': '\\%', '_': '\\_', '^': '\\^{}', '~': '\\~{}',
+    '∠': '$\\angle$', '°': '$^\\circ$', '∞': '$\\infty$', '–': '--',
+  }[ch]!));
+
+// #rgb / #rrggbb to an upper case 6 digit hex string, or null for anything else
+const toHex = (color: string) => {
+  const m = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!m) return null;
+  const hex = m[1].length === 3 ? m[1].split('').map(ch => ch + ch).join('') : m[1];
+  return hex.toUpperCase();
+};
+
+// Draw option of an object's stroke style (empty when solid)
+const dashOption = (obj: GeoEntity) =>
+  obj.strokeStyle === StrokeStyle.DASHED ? ', dashed' : obj.strokeStyle === StrokeStyle.DOTTED ? ', dotted' : '';
+
+// The parametric plot of a proper conic, with a parameter range that reaches the bounds
+const conicPlot = (conic: GeoConic, bounds: ViewBounds) => {
+  const { cx, cy, a, b, rotation, conicType } = conic;
+  const cr = Math.cos(rotation);
+  const sr = Math.sin(rotation);
+  // World point = center + x' * (cr, sr) + y' * (-sr, cr); TikZ y = -world y
+  const plot = (xs: [number, string][], ys: [number, string][], domain: string, samples: number) => {
+    const px = affine(cx, [...xs.map(([k, e]) => [k * cr, e] as [number, string]), ...ys.map(([k, e]) => [-k * sr, e] as [number, string])]);
+    const py = affine(-cy, [...xs.map(([k, e]) => [-k * sr, e] as [number, string]), ...ys.map(([k, e]) => [-k * cr, e] as [number, string])]);
+    return `plot[domain=${domain}, samples=${samples}, smooth, variable=\\t] ({${px}}, {${py}})`;
+  };
+  // Distance from the center to the farthest corner of the bounds
+  const reach = Math.max(
+    ...[[bounds.left, bounds.top], [bounds.right, bounds.top], [bounds.left, bounds.bottom], [bounds.right, bounds.bottom]]
+      .map(([x, y]) => Math.hypot(x - cx, y - cy))
+  );
+
+  if (conicType === ConicType.ELLIPSE) {
+    return [plot([[a, 'cos(\\t)']], [[b, 'sin(\\t)']], '0:360', 121)];
+  }
+  if (conicType === ConicType.HYPERBOLA) {
+    const range = Math.min(Math.acosh(Math.max(1, reach / Math.abs(a))), Math.asinh(reach / Math.abs(b)));
+    const domain = `${num(-range)}:${num(range)}`;
+    return [1, -1].map(sign => plot([[sign * a, 'cosh(\\t)']], [[b, 'sinh(\\t)']], domain, 80));
+  }
+  // Parabola y'^2 = 4ax', vertex at the center
+  const range = Math.min(Math.sqrt(4 * Math.abs(a) * reach), reach);
+  return [plot([[1 / (4 * a), '\\t*\\t']], [[1, '\\t']], `${num(-range)}:${num(range)}`, 100)];
+};
+
+export const exportTikz = (objects: GeoEntity[], options: TikzExportOptions): string => {
+  const { bounds } = options;
+  const visible = objects.filter(isShown);
+
+  // Colors: one \definecolor per distinct color
+  const colorNames = new Map<string, string>();
+  const colorName = (color: string) => {
+    const hex = toHex(color);
+    if (!hex) return 'black';
+    if (!colorNames.has(hex)) colorNames.set(hex, `c${hex}`);
+    return colorNames.get(hex)!;
+  };
+
+  // Coordinate names: letters and digits of the object name, made unique
+  const usedNames = new Set<string>();
+  const coordinateName = (name: string) => {
+    const base = name.replace(/[^A-Za-z0-9]/g, '') || 'P';
+    let candidate = base;
+    for (let i = 2; usedNames.has(candidate); i++) candidate = `${base}-${i}`;
+    usedNames.add(candidate);
+    return candidate;
+  };
+
+  const body: string[] = [];
+  const segment = (a: number, b: number, c: number, style: string) => {
+    const seg = clipLineToBounds(a, b, c, bounds);
+    if (seg) body.push(`\\draw[${style}] ${at(seg.x1, seg.y1)} -- ${at(seg.x2, seg.y2)};`);
+  };
+
+  // Grid and axes
+  if (options.grid) {
+    const step = bounds.right - bounds.left > 40 ? 5 : 1;
+    body.push('% Grid');
+    body.push(`\\draw[gray!30, very thin, step=${step}] ${at(bounds.left, bounds.top)} grid ${at(bounds.right, bounds.bottom)};`);
+  }
+  if (options.axes) {
+    body.push('% Axes');
+    if (bounds.top <= 0 && bounds.bottom >= 0) body.push(`\\draw[gray] ${at(bounds.left, 0)} -- ${at(bounds.right, 0)};`);
+    if (bounds.left <= 0 && bounds.right >= 0) body.push(`\\draw[gray] ${at(0, bounds.top)} -- ${at(0, bounds.bottom)};`);
+  }
+
+  // Conics
+  const conics = visible.filter((o): o is GeoConic => o.type === ObjectType.CONIC && o.conicType !== ConicType.EMPTY);
+  if (conics.length > 0) body.push('% Conics');
+  conics.forEach(obj => {
+    const color = colorName(obj.color);
+    body.push(`% ${obj.name}`);
+    if (obj.conicType === ConicType.POINT) {
+      body.push(`\\draw[${color}, thick] ${at(obj.cx, obj.cy)} circle[radius=3pt];`);
+    } else if (isDegenerateConicType(obj.conicType)) {
+      const lines = splitDegenerateConic(getConicMatrix(obj));
+      if (!lines) return;
+      const width = obj.conicType === ConicType.DOUBLE_LINE ? 'very thick' : 'thick';
+      (obj.conicType === ConicType.DOUBLE_LINE ? [lines[0]] : lines)
+        .filter(([la, lb, lc]) => !isLineAtInfinity({ a: la, b: lb, c: lc }))
+        .forEach(([la, lb, lc]) => segment(la, lb, lc, `${color}, ${width}${dashOption(obj)}`));
+    } else {
+      conicPlot(obj, bounds).forEach(plot => body.push(`\\draw[${color}, thick${dashOption(obj)}] ${plot};`));
+    }
+  });
+
+  // Circles
+  const circles = visible.filter(o => o.type === ObjectType.CIRCLE);
+  if (circles.length > 0) body.push('% Circles');
+  circles.forEach(obj => {
+    if (obj.type !== ObjectType.CIRCLE) return;
+    body.push(`\\draw[${colorName(obj.color)}, thick${dashOption(obj)}] ${at(obj.cx, obj.cy)} circle[radius=${num(obj.radius)}]; % ${obj.name}`);
+  });
+
+  // Loci: the computed samples as polylines
+  const loci = visible.filter(o => o.type === ObjectType.LOCUS);
+  if (loci.length > 0) body.push('% Loci');
+  loci.forEach(obj => {
+    if (obj.type !== ObjectType.LOCUS) return;
+    const color = colorName(obj.color);
+    body.push(`% ${obj.name}`);
+    obj.samples.forEach(polyline => {
+      body.push(`\\draw[${color}, thick, line join=round${dashOption(obj)}] plot coordinates {${polyline.map(p => at(p.x, p.y)).join(' ')}};`);
+    });
+  });
+
+  // Lines
+  const lines = visible.filter(o => o.type === ObjectType.LINE);
+  if (lines.length > 0) body.push('% Lines');
+  lines.forEach(obj => {
+    if (obj.type !== ObjectType.LINE) return;
+    const { a, b, c } = obj;
+    if (a === 0 && b === 0 && c === 0) return;
+    const color = colorName(obj.color);
+    if (isLineAtInfinity(obj)) {
+      const frame = getLineAtInfinityFrame(bounds, 0.1 / options.unit);
+      body.push(`\\draw[${color}, dashed] ${at(frame.x, frame.y)} rectangle ${at(frame.x + frame.width, frame.y + frame.height)}; % ${obj.name} (line at infinity)`);
+      return;
+    }
+    segment(a, b, c, `${color}, semithick${dashOption(obj)}`);
+  });
+
+  // Segments and rays (a ray ends beyond the clipping box)
+  const bounded = visible.filter(o => o.type === ObjectType.SEGMENT || o.type === ObjectType.RAY);
+  if (bounded.length > 0) body.push('% Segments and rays');
+  bounded.forEach(obj => {
+    if (obj.type !== ObjectType.SEGMENT && obj.type !== ObjectType.RAY) return;
+    const end = obj.type === ObjectType.RAY ? getRayEnd(obj.start, obj.end, bounds, 1) : obj.end;
+    body.push(`\\draw[${colorName(obj.color)}, semithick${dashOption(obj)}] ${at(obj.start.x, obj.start.y)} -- ${at(end.x, end.y)}; % ${obj.name}`);
+  });
+
+  // Points
+  const points = visible.filter(o => o.type === ObjectType.POINT);
+  if (points.length > 0) body.push('% Points');
+  points.forEach(obj => {
+    if (obj.type !== ObjectType.POINT) return;
+    const color = colorName(obj.color);
+    const label = escapeLatex(obj.name);
+    if (obj.w === 0) {
+      // Points at infinity: an arrow towards each end of their direction
+      getPointAtInfinityMarkers(obj, bounds, 0.3 / options.unit).forEach(({ x, y, dx, dy }) => {
+        const tail = 0.4 / options.unit;
+        body.push(`\\draw[${color}, thick, ->] ${at(x - dx * tail, y - dy * tail)} -- ${at(x, y)};`);
+        if (options.labels) body.push(`\\node[text=${color}, font=\\footnotesize] at ${at(x - dx * 2 * tail, y - dy * 2 * tail)} {${label}};`);
+      });
+      return;
+    }
+    const name = coordinateName(obj.name);
+    body.push(`\\coordinate (${name}) at ${at(obj.x, obj.y)};`);
+    body.push(`\\filldraw[fill=${color}, draw=black] (${name}) circle[radius=2pt];`);
+    if (options.labels) body.push(`\\node[above, text=${color}, font=\\footnotesize] at (${name}) {${label}};`);
+  });
+
+  // Measurements: the annotation and its value, always labelled
+  const measures = visible.filter(o => o.type === ObjectType.MEASURE);
+  if (measures.length > 0) body.push('% Measurements');
+  measures.forEach(obj => {
+    if (obj.type !== ObjectType.MEASURE) return;
+    const color = colorName(obj.color);
+    const path = obj.shape.map(p => at(p.x, p.y)).join(' -- ');
+    if (obj.measureType === MeasureType.AREA && obj.shape.length === 3) {
+      body.push(`\\filldraw[${color}, fill opacity=0.12, dashed] ${path} -- cycle;`);
+    } else if (obj.measureType === MeasureType.ANGLE && obj.shape.length > 1) {
+      body.push(`\\draw[${color}] ${path};`);
+    } else if (obj.shape.length === 2) {
+      body.push(`\\draw[${color}, dashed] ${path};`);
+    }
+    body.push(`\\node[text=${color}, font=\\footnotesize] at ${at(obj.x, obj.y)} {${escapeLatex(`${obj.name} = ${formatMeasure(obj)}`)}};`);
+  });
+
+  return [
+    '% Conic Geometry Sketchpad - TikZ export',
+    '% Requires only \\usepackage{tikz}',
+    `\\begin{tikzpicture}[x=${num(options.unit)}cm, y=${num(options.unit)}cm]`,
+    ...Array.from(colorNames).map(([hex, name]) => `\\definecolor{${name}}{HTML}{${hex}}`),
+    `\\clip ${at(bounds.left, bounds.top)} rectangle ${at(bounds.right, bounds.bottom)};`,
+    ...body,
+    '\\end{tikzpicture}',
+  ].join('\n') + '\n';
+};